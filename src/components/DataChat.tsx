@@ -1,8 +1,17 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { Send, MessageCircle, Bot, User, Database, BarChart3, Image as ImageIcon, Mic, MicOff, Printer, Upload } from 'lucide-react';
-import { structureInvoiceViaSonar } from '../utils/sonar';
+import { Send, MessageCircle, Bot, User, Database, BarChart3, Image as ImageIcon, Mic, MicOff, Printer, Upload, Layers, Building2, Gauge } from 'lucide-react';
+import { InvoiceStructuredItem } from '../utils/sonar';
+import { ExtractedInvoice, extractInvoice } from '../utils/invoicePipeline';
+import { isPdfFile } from '../utils/pdfInvoice';
+import { ImagePreprocessor } from '../utils/imagePreprocessor';
+import { requestCompletion, LLMError } from '../utils/llmProvider';
 import { InvoiceImport } from './InvoiceImport';
+import { InvoiceBatchIntake } from './InvoiceBatchIntake';
+import { SupplierProfiles } from './SupplierProfiles';
+import { ExtractionAccuracy } from './ExtractionAccuracy';
+import { ImagePreprocessPreview } from './ImagePreprocessPreview';
 import { hasSupabaseConfig } from '../utils/supabaseClient';
+import { PreprocessedImage } from '../types/invoice';
 
 interface ChatMessage {
   id: string;
@@ -14,6 +23,8 @@ interface ChatMessage {
   data?: any;
 }
 
+type InvoiceData = ExtractedInvoice;
+
 interface DataChatProps {
   data: any[];
   columns: string[];
@@ -27,6 +38,10 @@ export const DataChat: React.FC<DataChatProps> = ({ data, columns, profile: _pro
   const [isListening, setIsListening] = useState(false);
   const [activeInvoice, setActiveInvoice] = useState<InvoiceData | null>(null);
   const [showImportModal, setShowImportModal] = useState(false);
+  const [showBatchIntake, setShowBatchIntake] = useState(false);
+  const [showSupplierProfiles, setShowSupplierProfiles] = useState(false);
+  const [showAccuracy, setShowAccuracy] = useState(false);
+  const [pendingImage, setPendingImage] = useState<{ original: File; processed: PreprocessedImage } | null>(null);
 
   // Initialize messages when data is available
   useEffect(() => {
@@ -35,7 +50,7 @@ export const DataChat: React.FC<DataChatProps> = ({ data, columns, profile: _pro
         {
           id: '1',
           type: 'assistant',
-          content: `Hello! I'm your AI data assistant powered by Perplexity Sonar. I can see your dataset with ${data.length.toLocaleString()} rows and ${columns.length} columns. I have full access to your data and can provide detailed analysis, statistics, and insights. Ask me anything about your dataset!`,
+          content: `Hello! I'm your AI data assistant. I can see your dataset with ${data.length.toLocaleString()} rows and ${columns.length} columns. I have full access to your data and can provide detailed analysis, statistics, and insights. Ask me anything about your dataset!`,
           timestamp: new Date()
         }
       ]);
@@ -80,174 +95,49 @@ export const DataChat: React.FC<DataChatProps> = ({ data, columns, profile: _pro
     return [csvHeader, ...csvRows].join('\n');
   };
 
-  // ===== Invoice Structures and Helpers =====
-  interface InvoiceItem {
-    productId?: string;
-    name?: string;
-    quantity?: number;
-    rate?: number;
-    gst?: number;
-    total?: number;
-  }
-
-  interface InvoiceData {
-    companyName?: string;
-    address?: string;
-    gstNumber?: string;
-    date?: string;
-    invoiceNumber?: string;
-    customerId?: string;
-    items: InvoiceItem[];
-    subtotal?: number;
-    taxes?: number;
-    grandTotal?: number;
-    comments?: string;
-    signatures?: string[];
-    raw?: any;
-  }
-
-  const parseOcrToInvoice = (resp: any): InvoiceData => {
-    const detections: Array<{ text: string; confidence: number }> = resp?.detections || [];
-    const fullText: string = resp?.full_text || '';
-    const text = [fullText, ...detections.map(d => d.text)].join('\n');
-
-    const findMatch = (regex: RegExp): string | undefined => {
-      const m = text.match(regex);
-      return m ? m[0] : undefined;
-    };
-
-    const extractAfter = (labelRegex: RegExp, maxLen = 80): string | undefined => {
-      const idx = text.search(labelRegex);
-      if (idx === -1) return undefined;
-      const slice = text.slice(idx).split(/\n|\r/)[0];
-      const parts = slice.split(/[:：]/);
-      if (parts.length > 1) {
-        return parts[1].trim().slice(0, maxLen);
-      }
-      return undefined;
-    };
-
-    const companyLine = findMatch(/(?:(?:Tax\s+Invoice)|चालान|इनवॉइस)[\s\S]{0,120}/i) ||
-      detections.sort((a,b)=>b.confidence-a.confidence).map(d=>d.text).find(t=>t.length>4);
-
-    const companyName = companyLine?.split(/\n|,|\s{2,}/)[0]?.trim();
-    const address = findMatch(/\d{1,5}[^\n]{5,60}(?:स्ट्रीट|Street|Road|मार्ग|बिल्डिंग|Building)[^\n]{0,80}/i);
-
-    const gstNumber = findMatch(/(?:GST\s*No\.?|GSTIN|जीएसटी\s*नंबर)[^A-Za-z0-9]{0,6}([A-Z0-9\-]{10,20})/i) ||
-      findMatch(/[0-9०-९]{2}\s*[A-Z]{4}[A-Z0-9]{5}[\-–—]?[0-9A-Z]{1}[\-–—]?[Zz][\-–—]?[0-9A-Z]{1}/);
-
-    const date = findMatch(/\b\d{1,2}[\/-]\d{1,2}[\/-]\d{2,4}\b/) ||
-      extractAfter(/दिन(?:ा|ा)क|Date/i);
-
-    const invoiceNumber = extractAfter(/(?:Invoice\s*No\.?|चालान\s*नंबर|Bill\s*No\.?)/i, 40);
-    const customerId = extractAfter(/(?:Customer\s*ID|गाहक\s*आईडी)/i, 40);
-
-    // Basic totals
-    const moneyRegex = /(?<!\d)(\d{1,3}(?:,\d{3})*(?:\.\d{1,2})?|\d+\.\d{1,2})(?!\d)/g;
-    const lines = text.split(/\n|\r/).map(l=>l.trim()).filter(Boolean);
-    let subtotal: number | undefined;
-    let taxes: number | undefined;
-    let grandTotal: number | undefined;
-    lines.forEach(l => {
-      if (/subtotal|उप-योग/i.test(l)) {
-        const m = l.match(moneyRegex);
-        if (m && m.length) subtotal = parseFloat(m[m.length-1].replace(/,/g,''));
-      }
-      if (/tax|gst|कर/i.test(l)) {
-        const m = l.match(moneyRegex);
-        if (m && m.length) taxes = parseFloat(m[m.length-1].replace(/,/g,''));
-      }
-      if (/grand\s*total|total\s*amount|कुल|कुल\s*राशि/i.test(l)) {
-        const m = l.match(moneyRegex);
-        if (m && m.length) grandTotal = parseFloat(m[m.length-1].replace(/,/g,''));
-      }
-    });
-
-    // Items heuristic: look for lines containing qty x rate or with multiple numbers
-    const items: InvoiceItem[] = [];
-    lines.forEach(l => {
-      const nums = (l.match(moneyRegex) || []).map(s => parseFloat(s.replace(/,/g,'')));
-      if (nums.length >= 2 && /qty|quantity|मात्रा|pcs|rate|दर|x/i.test(l)) {
-        const name = l.replace(moneyRegex, '').replace(/qty|quantity|मात्रा|pcs|rate|दर|x/ig,' ').replace(/\s{2,}/g,' ').trim();
-        const [n1, n2, n3] = nums;
-        const quantity = n1 && n2 && n3 ? Math.round((n3 / n2) || n1) : undefined;
-        items.push({ name, quantity, rate: n2, total: n3 });
-      }
-    });
-
-    const comments = extractAfter(/comments|टिप्पणी|remarks/i, 120);
-    const signatures: string[] = [];
-    if (/signature|हस्ताक्षर/i.test(text)) signatures.push('Signature Present');
-
-    return {
-      companyName,
-      address,
-      gstNumber,
-      date,
-      invoiceNumber,
-      customerId,
-      items,
-      subtotal,
-      taxes,
-      grandTotal,
-      comments,
-      signatures,
-      raw: resp
-    };
+  // Photos are cleaned up first and the user picks the processed or original image for OCR
+  const handleImageUpload = async (file: File) => {
+    if (isPdfFile(file)) {
+      await extractUploadedInvoice(file);
+      return;
+    }
+    setIsLoading(true);
+    try {
+      setPendingImage({ original: file, processed: await ImagePreprocessor.process(file) });
+    } catch {
+      // Images the browser can't decode onto a canvas go to OCR unchanged
+      await extractUploadedInvoice(file);
+    } finally {
+      setIsLoading(false);
+    }
   };
 
-  const handleImageUpload = async (file: File) => {
+  const extractUploadedInvoice = async (file: File, preprocessed = false) => {
     try {
       setIsLoading(true);
       
-      // Create image preview URL for user message
-      const imageUrl = URL.createObjectURL(file);
+      // Create image preview URL for user message (PDFs have no inline preview)
+      const isPdf = isPdfFile(file);
+      const imageUrl = isPdf ? undefined : URL.createObjectURL(file);
       
       // Add user message with image preview
       setMessages(prev => [...prev, {
         id: Date.now().toString(),
         type: 'user',
-        content: 'Uploaded invoice image for processing',
+        content: isPdf
+          ? `Uploaded invoice PDF ${file.name} for processing`
+          : `Uploaded invoice image for processing${preprocessed ? ' (cleaned up)' : ''}`,
         imageUrl: imageUrl,
         timestamp: new Date()
       }]);
       
-      const form = new FormData();
-      form.append('image', file);
-      const res = await fetch('https://sidhu07-hindi-ocr-api.hf.space/ocr', {
-        method: 'POST',
-        body: form
-      });
-      if (!res.ok) {
-        throw new Error(`OCR failed: ${res.status}`);
-      }
-      const json = await res.json();
-      // First, quick heuristic parse; then refine with Sonar NLP for strict schema + imputation
-      let inv = parseOcrToInvoice(json);
-      try {
-        const structured = await structureInvoiceViaSonar({ full_text: json.full_text, detections: json.detections, heuristic: inv });
-        inv = {
-          companyName: structured.companyName,
-          address: structured.address,
-          gstNumber: structured.gstNumber,
-          date: structured.date,
-          invoiceNumber: structured.invoiceNumber,
-          customerId: structured.customerId,
-          items: structured.items,
-          subtotal: structured.subtotal,
-          taxes: structured.taxes,
-          grandTotal: structured.grandTotal,
-          comments: structured.comments,
-          signatures: structured.signatures,
-          raw: json
-        } as any;
-      } catch {}
+      const inv: InvoiceData = await extractInvoice(file);
       
       // Add invoice as a message with data field
       setMessages(prev => [...prev, {
         id: (Date.now() + 1).toString(),
         type: 'assistant',
-        content: `🧾 Invoice processed for **${inv.companyName || 'unknown company'}**. You can print or import it to the database.`,
+        content: `🧾 Invoice processed for **${inv.companyName || 'unknown company'}**. You can print or import it to the database.${inv.fieldErrors?.length ? ` ⚠️ ${inv.fieldErrors.length} field(s) could not be validated and need review.` : ''}`,
         timestamp: new Date(),
         data: inv // Store invoice in message data
       }]);
@@ -336,9 +226,6 @@ export const DataChat: React.FC<DataChatProps> = ({ data, columns, profile: _pro
   };
 
   const generateResponse = async (userMessage: string): Promise<string> => {
-    const API_KEY = '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';
-    const MODEL = import.meta.env.VITE_PPLX_MODEL || 'sonar';
-    
     // Check if dataset is loaded
     if (data.length === 0) {
       throw new Error('No dataset loaded. Please upload a dataset first.');
@@ -363,58 +250,42 @@ export const DataChat: React.FC<DataChatProps> = ({ data, columns, profile: _pro
     ].join('\n');
 
     try {
-      const response = await fetch('https://api.perplexity.ai/chat/completions', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${API_KEY}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          model: MODEL,
-          messages: [
-            {
-              role: 'system',
-              content: `You are a helpful data analysis assistant. When provided with a dataset in CSV format, analyze it thoroughly and provide detailed insights. You can perform statistical analysis, identify patterns, answer specific questions about the data, and provide recommendations for data quality improvements. Keep responses conversational and informative.`
-            },
-            {
-              role: 'user',
-              content: fullMessage
-            }
-          ],
-          max_tokens: 1000,
-          temperature: 0.7
-        })
+      const { content } = await requestCompletion({
+        task: 'data-chat',
+        messages: [
+          {
+            role: 'system',
+            content: `You are a helpful data analysis assistant. When provided with a dataset in CSV format, analyze it thoroughly and provide detailed insights. You can perform statistical analysis, identify patterns, answer specific questions about the data, and provide recommendations for data quality improvements. Keep responses conversational and informative.`
+          },
+          {
+            role: 'user',
+            content: fullMessage
+          }
+        ],
+        maxTokens: 1000,
+        temperature: 0.7
       });
 
-      if (!response.ok) {
-        throw new Error(`API request failed with status ${response.status}: ${response.statusText}`);
-      }
-
-      const result = await response.json();
-      
-      if (result.error) {
-        throw new Error(result.error.message || 'API returned an error');
-      }
-
-      if (!result.choices || !result.choices[0] || !result.choices[0].message) {
-        throw new Error('Invalid response format from API');
-      }
-
-      return result.choices[0].message.content;
+      return content;
     } catch (error) {
-      console.error('Perplexity API Error:', error);
+      console.error('LLM provider error:', error);
       
-      if (error instanceof Error) {
-        if (error.message.includes('401') || error.message.includes('403')) {
-          return '❌ **API Key Error**: Your Perplexity API key is invalid or missing. Please check your configuration in the .env file.';
-        } else if (error.message.includes('429')) {
-          return '⏳ **Rate Limit**: Too many requests. Please wait a moment and try again.';
-        } else if (error.message.includes('500')) {
-          return '🔧 **Server Error**: The Perplexity API is experiencing issues. Please try again later.';
-        } else if (error.message.includes('network') || error.message.includes('fetch')) {
-          return '🌐 **Network Error**: Please check your internet connection and try again.';
-        } else if (error.message.includes('API request failed')) {
-          return `❌ **API Error**: ${error.message}. Please check your API key and try again.`;
+      if (error instanceof LLMError) {
+        switch (error.kind) {
+          case 'not_configured':
+            return `⚙️ **Not Configured**: ${error.message}.`;
+          case 'auth':
+            return '❌ **API Key Error**: The language model API key is invalid or missing. Please check your configuration in the .env file.';
+          case 'rate_limit':
+            return '⏳ **Rate Limit**: Too many requests. Please wait a moment and try again.';
+          case 'server':
+            return '🔧 **Server Error**: The language model service is experiencing issues. Please try again later.';
+          case 'network':
+            return '🌐 **Network Error**: Please check your internet connection and try again.';
+          case 'timeout':
+            return '⌛ **Timeout**: The language model took too long to respond. Please try again.';
+          default:
+            return `❌ **API Error**: ${error.message}. Please check your API configuration and try again.`;
         }
       }
       
@@ -698,7 +569,7 @@ export const DataChat: React.FC<DataChatProps> = ({ data, columns, profile: _pro
                                   w.document.write(`<table><thead><tr>
                                     <th>Product ID</th><th>Name</th><th>Qty</th><th>Rate</th><th>GST</th><th>Total</th>
                                   </tr></thead><tbody>`);
-                                  (inv.items || []).forEach((it: InvoiceItem) => {
+                                  (inv.items || []).forEach((it: InvoiceStructuredItem) => {
                                     w.document.write(`<tr>
                                       <td>${it.productId || ''}</td>
                                       <td>${it.name || ''}</td>
@@ -820,8 +691,8 @@ export const DataChat: React.FC<DataChatProps> = ({ data, columns, profile: _pro
       <div className="border-t border-gray-200 p-4 md:p-5 bg-white/90 backdrop-blur">
         <div className="flex gap-3 items-end">
           {/* Left: Image Upload */}
-          <div>
-            <input id="ocr-image-input" type="file" accept="image/*" className="hidden" onChange={(e) => {
+          <div className="flex items-center gap-2">
+            <input id="ocr-image-input" type="file" accept="image/*,application/pdf" className="hidden" onChange={(e) => {
               const f = e.target.files?.[0];
               if (f) handleImageUpload(f);
               (e.target as HTMLInputElement).value = '';
@@ -829,6 +700,27 @@ export const DataChat: React.FC<DataChatProps> = ({ data, columns, profile: _pro
             <label htmlFor="ocr-image-input" className="inline-flex items-center gap-2 px-3 py-3 rounded-2xl border border-gray-200 bg-white hover:bg-gray-50 cursor-pointer shadow-sm">
               <ImageIcon className="w-5 h-5 text-gray-700" />
             </label>
+            <button
+              onClick={() => setShowBatchIntake(true)}
+              className="inline-flex items-center gap-2 px-3 py-3 rounded-2xl border border-gray-200 bg-white hover:bg-gray-50 shadow-sm"
+              title="Process many invoices at once"
+            >
+              <Layers className="w-5 h-5 text-gray-700" />
+            </button>
+            <button
+              onClick={() => setShowSupplierProfiles(true)}
+              className="inline-flex items-center gap-2 px-3 py-3 rounded-2xl border border-gray-200 bg-white hover:bg-gray-50 shadow-sm"
+              title="Supplier profiles"
+            >
+              <Building2 className="w-5 h-5 text-gray-700" />
+            </button>
+            <button
+              onClick={() => setShowAccuracy(true)}
+              className="inline-flex items-center gap-2 px-3 py-3 rounded-2xl border border-gray-200 bg-white hover:bg-gray-50 shadow-sm"
+              title="Extraction accuracy"
+            >
+              <Gauge className="w-5 h-5 text-gray-700" />
+            </button>
           </div>
 
           <div className="flex-1 relative">
@@ -867,6 +759,41 @@ export const DataChat: React.FC<DataChatProps> = ({ data, columns, profile: _pro
         </div>
       </div>
 
+      {pendingImage && (
+        <ImagePreprocessPreview
+          original={pendingImage.original}
+          processed={pendingImage.processed}
+          onChoose={(file) => {
+            setPendingImage(null);
+            extractUploadedInvoice(file, file !== pendingImage.original);
+          }}
+          onCancel={() => setPendingImage(null)}
+        />
+      )}
+
+      {showAccuracy && (
+        <ExtractionAccuracy onClose={() => setShowAccuracy(false)} />
+      )}
+
+      {showSupplierProfiles && (
+        <SupplierProfiles onClose={() => setShowSupplierProfiles(false)} />
+      )}
+
+      {/* Batch Intake */}
+      {showBatchIntake && (
+        <InvoiceBatchIntake
+          onClose={() => setShowBatchIntake(false)}
+          onImported={(fileName) => {
+            setMessages(prev => [...prev, {
+              id: Date.now().toString(),
+              type: 'assistant',
+              content: `✅ Invoice from ${fileName} imported to Supabase database!`,
+              timestamp: new Date()
+            }]);
+          }}
+        />
+      )}
+
       {/* Import Modal */}
       {showImportModal && activeInvoice && (
         <InvoiceImport
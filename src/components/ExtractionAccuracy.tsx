@@ -0,0 +1,227 @@
+import React, { useMemo, useState } from 'react';
+import { X, Gauge, FileJson, Trash2 } from 'lucide-react';
+import { ExtractionFeedback } from '../utils/extractionFeedback';
+import { AccuracyPeriod, ExtractionReview } from '../types/invoice';
+
+interface ExtractionAccuracyProps {
+  onClose: () => void;
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  companyName: 'Customer / company',
+  gstNumber: 'Supplier GSTIN',
+  grandTotal: 'Grand total',
+  'items[]': 'Line items (added / removed)',
+  'items[].name': 'Item name',
+  'items[].quantity': 'Quantity',
+  'items[].rate': 'Rate',
+  'items[].gstRate': 'GST %',
+  'items[].hsnSac': 'HSN/SAC'
+};
+
+const SOURCE_LABELS: Record<string, string> = {
+  ocr: 'OCR',
+  llm: 'Model',
+  imputed: 'Imputed',
+  qr: 'E-invoice QR',
+  untracked: 'Untracked'
+};
+
+const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+const accuracyClass = (value: number) =>
+  value >= 0.95 ? 'text-green-700' : value >= 0.8 ? 'text-amber-700' : 'text-red-700';
+
+/** Weekly accuracy of one field (or all fields) as a row of small bars. */
+const Trend: React.FC<{ timeline: AccuracyPeriod[]; field?: string }> = ({ timeline, field }) => (
+  <div className="flex items-end gap-0.5 h-6">
+    {timeline.slice(-12).map(period => {
+      const totals = field ? period.fields[field] : period;
+      if (!totals || totals.checked === 0) {
+        return <div key={period.period} className="w-1.5 h-px bg-gray-200" title={`Week of ${period.period}: no data`} />;
+      }
+      const accuracy = (totals.checked - totals.corrected) / totals.checked;
+      return (
+        <div
+          key={period.period}
+          className={`w-1.5 rounded-sm ${accuracy >= 0.95 ? 'bg-green-500' : accuracy >= 0.8 ? 'bg-amber-500' : 'bg-red-500'}`}
+          style={{ height: `${Math.max(8, accuracy * 100)}%` }}
+          title={`Week of ${period.period}: ${percent(accuracy)} (${totals.corrected} of ${totals.checked} corrected)`}
+        />
+      );
+    })}
+  </div>
+);
+
+export const ExtractionAccuracy: React.FC<ExtractionAccuracyProps> = ({ onClose }) => {
+  const [reviews, setReviews] = useState<ExtractionReview[]>(() => ExtractionFeedback.all());
+  const metrics = useMemo(() => ExtractionFeedback.metrics(reviews), [reviews]);
+  const fixtureCount = reviews.filter(review => review.ocr).length;
+
+  const exportFixtures = () => {
+    const blob = new Blob([ExtractionFeedback.exportFixtures(reviews)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `invoice-regression-fixtures-${new Date().toISOString().split('T')[0]}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const clearReviews = () => {
+    if (!confirm('Delete all recorded corrections? The accuracy history will start over.')) return;
+    ExtractionFeedback.clear();
+    setReviews([]);
+  };
+
+  const recentCorrections = reviews
+    .flatMap(review => review.corrections.map(correction => ({ review, correction })))
+    .slice(0, 15);
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-40 p-4">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-5xl w-full max-h-[90vh] flex flex-col overflow-hidden">
+        {/* Header */}
+        <div className="bg-gradient-to-r from-blue-600 to-indigo-600 px-6 py-4 flex items-center justify-between rounded-t-2xl flex-shrink-0">
+          <div className="flex items-center gap-3">
+            <Gauge className="w-6 h-6 text-white" />
+            <h2 className="text-xl font-bold text-white">Extraction Accuracy</h2>
+          </div>
+          <button onClick={onClose} className="text-white/80 hover:text-white transition">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-6">
+          {metrics.reviews === 0 ? (
+            <div className="text-center text-sm text-gray-500 py-12">
+              No reviewed invoices yet. Every import records the changes you make to the extracted values.
+            </div>
+          ) : (
+            <>
+              {/* Summary */}
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                <div className="p-4 rounded-lg border border-gray-200">
+                  <div className="text-xs text-gray-500">Overall accuracy</div>
+                  <div className={`text-2xl font-bold ${accuracyClass(metrics.overall.accuracy)}`}>{percent(metrics.overall.accuracy)}</div>
+                  <Trend timeline={metrics.timeline} />
+                </div>
+                <div className="p-4 rounded-lg border border-gray-200">
+                  <div className="text-xs text-gray-500">Invoices reviewed</div>
+                  <div className="text-2xl font-bold text-gray-900">{metrics.reviews}</div>
+                </div>
+                <div className="p-4 rounded-lg border border-gray-200">
+                  <div className="text-xs text-gray-500">Values checked</div>
+                  <div className="text-2xl font-bold text-gray-900">{metrics.overall.checked}</div>
+                </div>
+                <div className="p-4 rounded-lg border border-gray-200">
+                  <div className="text-xs text-gray-500">Corrections</div>
+                  <div className="text-2xl font-bold text-gray-900">{metrics.overall.corrected}</div>
+                  <div className="text-xs text-gray-500 mt-1">
+                    {Object.entries(metrics.sources)
+                      .map(([source, count]) => `${SOURCE_LABELS[source] || source} ${count}`)
+                      .join(' · ')}
+                  </div>
+                </div>
+              </div>
+
+              {/* Per-field accuracy, most corrected first */}
+              <div>
+                <h3 className="text-sm font-semibold text-gray-900 mb-2">Accuracy by field</h3>
+                <div className="border border-gray-200 rounded-lg overflow-hidden">
+                  <table className="w-full text-sm">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Field</th>
+                        <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Checked</th>
+                        <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Corrected</th>
+                        <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Accuracy</th>
+                        <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Last 12 weeks</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-200">
+                      {metrics.fields.map(field => (
+                        <tr key={field.field}>
+                          <td className="px-4 py-2 text-gray-900">{FIELD_LABELS[field.field] || field.field}</td>
+                          <td className="px-4 py-2 text-right text-gray-600">{field.checked}</td>
+                          <td className="px-4 py-2 text-right text-gray-600">{field.corrected}</td>
+                          <td className={`px-4 py-2 text-right font-medium ${accuracyClass(field.accuracy)}`}>{percent(field.accuracy)}</td>
+                          <td className="px-4 py-2"><Trend timeline={metrics.timeline} field={field.field} /></td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+
+              <div className="grid md:grid-cols-2 gap-6">
+                {/* Worst suppliers */}
+                <div>
+                  <h3 className="text-sm font-semibold text-gray-900 mb-2">Suppliers needing the most correction</h3>
+                  <div className="border border-gray-200 rounded-lg divide-y divide-gray-200">
+                    {metrics.suppliers.slice(0, 8).map(supplier => (
+                      <div key={supplier.gstin || supplier.name} className="flex items-center gap-3 px-4 py-2">
+                        <div className="flex-1 min-w-0">
+                          <div className="text-sm text-gray-900 truncate">{supplier.name || 'Unknown supplier'}</div>
+                          <div className="text-xs text-gray-500 truncate">
+                            {supplier.gstin || 'No GSTIN'} · {supplier.invoices} invoice(s) · {supplier.corrected} correction(s)
+                          </div>
+                        </div>
+                        <span className={`text-sm font-medium ${accuracyClass(supplier.accuracy)}`}>{percent(supplier.accuracy)}</span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+
+                {/* Recent corrections */}
+                <div>
+                  <h3 className="text-sm font-semibold text-gray-900 mb-2">Recent corrections</h3>
+                  <div className="border border-gray-200 rounded-lg divide-y divide-gray-200">
+                    {recentCorrections.length === 0 ? (
+                      <div className="px-4 py-3 text-sm text-gray-500">No corrections recorded</div>
+                    ) : recentCorrections.map(({ review, correction }, idx) => (
+                      <div key={`${review.id}-${idx}`} className="px-4 py-2 text-xs">
+                        <div className="text-gray-900">
+                          <span className="font-medium">{FIELD_LABELS[correction.field] || correction.field}</span>
+                          {' · '}
+                          <span className="line-through text-red-600">{correction.before || '(none)'}</span>
+                          {' → '}
+                          <span className="text-green-700">{correction.after || '(removed)'}</span>
+                        </div>
+                        <div className="text-gray-500 truncate">
+                          {review.supplierName || 'Unknown supplier'} · {SOURCE_LABELS[correction.source || 'untracked']}
+                          {` · ${new Date(review.reviewedAt).toLocaleDateString()}`}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              </div>
+            </>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="border-t border-gray-200 px-6 py-4 bg-gray-50 flex items-center justify-between gap-3 rounded-b-2xl flex-shrink-0">
+          <button
+            onClick={clearReviews}
+            disabled={reviews.length === 0}
+            className="px-4 py-2 text-sm font-medium text-red-700 hover:bg-red-50 rounded-lg transition disabled:opacity-50 flex items-center gap-2"
+          >
+            <Trash2 className="w-4 h-4" />
+            Clear history
+          </button>
+          <button
+            onClick={exportFixtures}
+            disabled={fixtureCount === 0}
+            className="px-5 py-2 text-sm font-medium text-white bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700 rounded-lg transition disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
+            title="OCR output and confirmed values of recent invoices, replayable with the fixture OCR provider"
+          >
+            <FileJson className="w-4 h-4" />
+            Export regression fixtures ({fixtureCount})
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,87 @@
+import React, { useEffect, useState } from 'react';
+import { X, Wand2, Image as ImageIcon, Check } from 'lucide-react';
+import { PreprocessedImage } from '../types/invoice';
+
+interface ImagePreprocessPreviewProps {
+  original: File;
+  processed: PreprocessedImage;
+  onChoose: (file: File) => void;
+  onCancel: () => void;
+}
+
+/** Before/after view of a cleaned-up invoice photo; the chosen image goes to OCR. */
+export const ImagePreprocessPreview: React.FC<ImagePreprocessPreviewProps> = ({ original, processed, onChoose, onCancel }) => {
+  const [urls, setUrls] = useState<{ original: string; processed: string } | null>(null);
+
+  useEffect(() => {
+    const next = { original: URL.createObjectURL(original), processed: URL.createObjectURL(processed.file) };
+    setUrls(next);
+    return () => {
+      URL.revokeObjectURL(next.original);
+      URL.revokeObjectURL(next.processed);
+    };
+  }, [original, processed]);
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-40 p-4">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-5xl w-full max-h-[90vh] flex flex-col overflow-hidden">
+        {/* Header */}
+        <div className="bg-gradient-to-r from-blue-600 to-indigo-600 px-6 py-4 flex items-center justify-between rounded-t-2xl flex-shrink-0">
+          <div className="flex items-center gap-3">
+            <Wand2 className="w-6 h-6 text-white" />
+            <h2 className="text-xl font-bold text-white">Prepare Image for OCR</h2>
+          </div>
+          <button onClick={onCancel} className="text-white/80 hover:text-white transition">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-4">
+          <div className="grid md:grid-cols-2 gap-4">
+            <div>
+              <div className="text-xs font-medium text-gray-500 uppercase mb-2">Original</div>
+              <div className="border border-gray-200 rounded-lg bg-gray-50 h-[55vh] flex items-center justify-center overflow-hidden">
+                {urls && <img src={urls.original} alt="Original invoice" className="max-w-full max-h-full object-contain" />}
+              </div>
+            </div>
+            <div>
+              <div className="text-xs font-medium text-gray-500 uppercase mb-2">
+                Processed · {processed.width}×{processed.height}
+              </div>
+              <div className="border border-blue-200 rounded-lg bg-gray-50 h-[55vh] flex items-center justify-center overflow-hidden">
+                {urls && <img src={urls.processed} alt="Processed invoice" className="max-w-full max-h-full object-contain" />}
+              </div>
+            </div>
+          </div>
+
+          <ul className="text-sm text-gray-700 space-y-1">
+            {processed.steps.map(step => (
+              <li key={step} className="flex items-center gap-2">
+                <Check className="w-4 h-4 text-green-600 flex-shrink-0" />
+                {step}
+              </li>
+            ))}
+          </ul>
+        </div>
+
+        {/* Footer */}
+        <div className="border-t border-gray-200 px-6 py-4 bg-gray-50 flex items-center justify-end gap-3 rounded-b-2xl flex-shrink-0">
+          <button
+            onClick={() => onChoose(original)}
+            className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 hover:bg-gray-50 rounded-lg transition flex items-center gap-2"
+          >
+            <ImageIcon className="w-4 h-4" />
+            Use original
+          </button>
+          <button
+            onClick={() => onChoose(processed.file)}
+            className="px-5 py-2 text-sm font-medium text-white bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700 rounded-lg transition flex items-center gap-2"
+          >
+            <Wand2 className="w-4 h-4" />
+            Use processed
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
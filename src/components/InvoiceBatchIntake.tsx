@@ -0,0 +1,316 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { X, Upload, Layers, Clock, Loader2, AlertTriangle, CheckCircle, XCircle, RotateCcw, Trash2, Eye } from 'lucide-react';
+import { InvoiceImport } from './InvoiceImport';
+import { ExtractedInvoice, extractInvoice } from '../utils/invoicePipeline';
+import { ProvenanceTracker } from '../utils/invoiceProvenance';
+import { InvoiceReconciler } from '../utils/invoiceReconciler';
+import { BASE_CURRENCY, CurrencyDetector } from '../utils/currency';
+import { InvoiceBatchStatus } from '../types/invoice';
+
+// OCR and the model are remote services; keep a few requests in flight, not dozens
+const BATCH_CONCURRENCY = 3;
+
+const ACCEPTED_TYPES = 'image/*,application/pdf';
+
+interface BatchItem {
+  id: string;
+  file: File;
+  status: InvoiceBatchStatus;
+  invoice?: ExtractedInvoice;
+  error?: string;
+}
+
+interface InvoiceBatchIntakeProps {
+  onClose: () => void;
+  onImported?: (fileName: string) => void;
+}
+
+const STATUS_LABELS: Record<InvoiceBatchStatus, string> = {
+  queued: 'Queued',
+  ocr: 'Running OCR',
+  structuring: 'Structuring',
+  'needs-review': 'Needs review',
+  imported: 'Imported',
+  failed: 'Failed'
+};
+
+const STATUS_STYLES: Record<InvoiceBatchStatus, string> = {
+  queued: 'bg-gray-100 text-gray-700',
+  ocr: 'bg-blue-100 text-blue-700',
+  structuring: 'bg-indigo-100 text-indigo-700',
+  'needs-review': 'bg-amber-100 text-amber-800',
+  imported: 'bg-green-100 text-green-700',
+  failed: 'bg-red-100 text-red-700'
+};
+
+const StatusIcon: React.FC<{ status: InvoiceBatchStatus }> = ({ status }) => {
+  switch (status) {
+    case 'queued':
+      return <Clock className="w-3.5 h-3.5" />;
+    case 'ocr':
+    case 'structuring':
+      return <Loader2 className="w-3.5 h-3.5 animate-spin" />;
+    case 'needs-review':
+      return <AlertTriangle className="w-3.5 h-3.5" />;
+    case 'imported':
+      return <CheckCircle className="w-3.5 h-3.5" />;
+    case 'failed':
+      return <XCircle className="w-3.5 h-3.5" />;
+  }
+};
+
+/** Fields flagged for review and whether the arithmetic reconciles, shown so reviewers can triage. */
+const summarize = (invoice: ExtractedInvoice) => {
+  const flagged = Object.values(invoice.provenance || {}).filter(p => ProvenanceTracker.needsReview(p)).length
+    + (invoice.fieldErrors?.length || 0);
+  const report = InvoiceReconciler.reconcile({
+    items: invoice.items,
+    subtotal: invoice.subtotal ?? 0,
+    taxes: invoice.taxes ?? 0,
+    grandTotal: invoice.grandTotal ?? 0,
+    discount: invoice.discount ?? 0
+  });
+  return { flagged, reconciles: !report.hasErrors };
+};
+
+export const InvoiceBatchIntake: React.FC<InvoiceBatchIntakeProps> = ({ onClose, onImported }) => {
+  const [items, setItems] = useState<BatchItem[]>([]);
+  const [reviewQueue, setReviewQueue] = useState<string[]>([]);
+  const [dragOver, setDragOver] = useState(false);
+
+  const updateItem = useCallback((id: string, patch: Partial<BatchItem>) => {
+    setItems(prev => prev.map(item => (item.id === id ? { ...item, ...patch } : item)));
+  }, []);
+
+  const processItem = useCallback(async (item: BatchItem) => {
+    try {
+      const invoice = await extractInvoice(item.file, stage => updateItem(item.id, { status: stage }));
+      updateItem(item.id, { status: 'needs-review', invoice, error: undefined });
+    } catch (error) {
+      updateItem(item.id, { status: 'failed', error: (error as Error)?.message || 'Failed to process file' });
+    }
+  }, [updateItem]);
+
+  // Scheduler: whenever a slot frees up, start the next queued files
+  useEffect(() => {
+    const active = items.filter(item => item.status === 'ocr' || item.status === 'structuring').length;
+    const next = items.filter(item => item.status === 'queued').slice(0, BATCH_CONCURRENCY - active);
+    if (next.length === 0) return;
+
+    const startIds = new Set(next.map(item => item.id));
+    setItems(prev => prev.map(item => (startIds.has(item.id) ? { ...item, status: 'ocr' } : item)));
+    next.forEach(item => processItem(item));
+  }, [items, processItem]);
+
+  const addFiles = (files: File[]) => {
+    const accepted = files.filter(file => file.type.startsWith('image/') || file.type === 'application/pdf');
+    setItems(prev => [
+      ...prev,
+      ...accepted.map((file, idx) => ({
+        id: `${Date.now()}-${idx}-${file.name}`,
+        file,
+        status: 'queued' as const
+      }))
+    ]);
+  };
+
+  const retryItem = (id: string) => updateItem(id, { status: 'queued', error: undefined });
+
+  const retryFailed = () => {
+    setItems(prev => prev.map(item => (item.status === 'failed' ? { ...item, status: 'queued', error: undefined } : item)));
+  };
+
+  const removeItem = (id: string) => {
+    setItems(prev => prev.filter(item => item.id !== id));
+  };
+
+  const reviewAll = () => {
+    setReviewQueue(items.filter(item => item.status === 'needs-review').map(item => item.id));
+  };
+
+  const counts = items.reduce<Record<InvoiceBatchStatus, number>>((acc, item) => {
+    acc[item.status]++;
+    return acc;
+  }, { queued: 0, ocr: 0, structuring: 0, 'needs-review': 0, imported: 0, failed: 0 });
+  const processed = counts['needs-review'] + counts.imported + counts.failed;
+  const reviewing = items.find(item => item.id === reviewQueue[0]);
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-40 p-4">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-4xl w-full max-h-[90vh] flex flex-col overflow-hidden">
+        {/* Header */}
+        <div className="bg-gradient-to-r from-blue-600 to-indigo-600 px-6 py-4 flex items-center justify-between rounded-t-2xl flex-shrink-0">
+          <div className="flex items-center gap-3">
+            <Layers className="w-6 h-6 text-white" />
+            <h2 className="text-xl font-bold text-white">Batch Invoice Intake</h2>
+          </div>
+          <button onClick={onClose} className="text-white/80 hover:text-white transition">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-4">
+          {/* Drop zone */}
+          <div
+            className={`border-2 border-dashed rounded-lg p-6 text-center transition ${
+              dragOver ? 'border-blue-500 bg-blue-50' : 'border-gray-300 hover:border-blue-400 hover:bg-gray-50'
+            }`}
+            onDrop={(e) => {
+              e.preventDefault();
+              setDragOver(false);
+              addFiles(Array.from(e.dataTransfer.files));
+            }}
+            onDragOver={(e) => {
+              e.preventDefault();
+              setDragOver(true);
+            }}
+            onDragLeave={() => setDragOver(false)}
+          >
+            <Upload className={`w-10 h-10 mx-auto mb-3 ${dragOver ? 'text-blue-500' : 'text-gray-400'}`} />
+            <p className="text-sm font-medium text-gray-700 mb-1">Drop invoice images or PDFs here</p>
+            <p className="text-xs text-gray-500 mb-3">
+              Files are processed {BATCH_CONCURRENCY} at a time and wait for your review before anything is imported
+            </p>
+            <input
+              id="batch-invoice-input"
+              type="file"
+              accept={ACCEPTED_TYPES}
+              multiple
+              className="hidden"
+              onChange={(e) => {
+                addFiles(Array.from(e.target.files || []));
+                e.target.value = '';
+              }}
+            />
+            <label
+              htmlFor="batch-invoice-input"
+              className="inline-block px-4 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 rounded-lg cursor-pointer transition"
+            >
+              Choose files
+            </label>
+          </div>
+
+          {items.length > 0 && (
+            <>
+              {/* Progress */}
+              <div>
+                <div className="flex items-center justify-between text-xs text-gray-600 mb-1">
+                  <span>{processed} of {items.length} processed</span>
+                  <span>
+                    {counts['needs-review']} to review · {counts.imported} imported · {counts.failed} failed
+                  </span>
+                </div>
+                <div className="w-full h-2 bg-gray-200 rounded-full overflow-hidden">
+                  <div
+                    className="h-full bg-gradient-to-r from-blue-500 to-indigo-500 transition-all"
+                    style={{ width: `${(processed / items.length) * 100}%` }}
+                  />
+                </div>
+              </div>
+
+              {/* Per-file results */}
+              <div className="border border-gray-200 rounded-lg divide-y divide-gray-200">
+                {items.map(item => {
+                  const summary = item.invoice ? summarize(item.invoice) : null;
+                  const busy = item.status === 'ocr' || item.status === 'structuring';
+                  return (
+                    <div key={item.id} className="flex items-center gap-3 px-4 py-3">
+                      <div className="flex-1 min-w-0">
+                        <div className="text-sm font-medium text-gray-900 truncate">{item.file.name}</div>
+                        <div className="text-xs text-gray-500 truncate">
+                          {item.error ? (
+                            <span className="text-red-600">{item.error}</span>
+                          ) : item.invoice ? (
+                            <>
+                              {item.invoice.companyName || 'Unknown supplier'}
+                              {item.invoice.invoiceNumber ? ` · #${item.invoice.invoiceNumber}` : ''}
+                              {item.invoice.grandTotal !== undefined ? ` · ${CurrencyDetector.symbol(item.invoice.currency || BASE_CURRENCY)}${item.invoice.grandTotal.toFixed(2)}` : ''}
+                              {summary && summary.flagged > 0 && (
+                                <span className="text-amber-700"> · {summary.flagged} field(s) to check</span>
+                              )}
+                              {summary && !summary.reconciles && (
+                                <span className="text-red-600"> · totals do not reconcile</span>
+                              )}
+                            </>
+                          ) : (
+                            `${(item.file.size / 1024).toFixed(0)} KB`
+                          )}
+                        </div>
+                      </div>
+                      <span className={`inline-flex items-center gap-1 px-2 py-1 rounded text-xs font-medium ${STATUS_STYLES[item.status]}`}>
+                        <StatusIcon status={item.status} />
+                        {STATUS_LABELS[item.status]}
+                      </span>
+                      <div className="flex items-center gap-1">
+                        {item.status === 'needs-review' && (
+                          <button
+                            onClick={() => setReviewQueue([item.id])}
+                            className="p-1.5 text-blue-600 hover:bg-blue-50 rounded transition"
+                            title="Review and import"
+                          >
+                            <Eye className="w-4 h-4" />
+                          </button>
+                        )}
+                        {item.status === 'failed' && (
+                          <button
+                            onClick={() => retryItem(item.id)}
+                            className="p-1.5 text-gray-600 hover:bg-gray-100 rounded transition"
+                            title="Retry"
+                          >
+                            <RotateCcw className="w-4 h-4" />
+                          </button>
+                        )}
+                        {!busy && (
+                          <button
+                            onClick={() => removeItem(item.id)}
+                            className="p-1.5 text-red-600 hover:bg-red-50 rounded transition"
+                            title="Remove from batch"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        )}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            </>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="border-t border-gray-200 px-6 py-4 bg-gray-50 flex items-center justify-end gap-3 rounded-b-2xl flex-shrink-0">
+          <button
+            onClick={retryFailed}
+            disabled={counts.failed === 0}
+            className="px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-200 rounded-lg transition disabled:opacity-50 flex items-center gap-2"
+          >
+            <RotateCcw className="w-4 h-4" />
+            Retry failed ({counts.failed})
+          </button>
+          <button
+            onClick={reviewAll}
+            disabled={counts['needs-review'] === 0}
+            className="px-5 py-2 text-sm font-medium text-white bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700 rounded-lg transition disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
+          >
+            <Eye className="w-4 h-4" />
+            Review all ({counts['needs-review']})
+          </button>
+        </div>
+      </div>
+
+      {/* Invoices are reviewed one at a time; closing the modal moves on to the next in the queue */}
+      {reviewing?.invoice && (
+        <InvoiceImport
+          key={reviewing.id}
+          invoice={reviewing.invoice}
+          onClose={() => setReviewQueue(prev => prev.slice(1))}
+          onSuccess={() => {
+            updateItem(reviewing.id, { status: 'imported' });
+            onImported?.(reviewing.file.name);
+          }}
+        />
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,241 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { X, ZoomIn, ZoomOut, Maximize, Hand, LassoSelect, ScanText, Loader2 } from 'lucide-react';
+import { OcrDetection } from '../types/invoice';
+import { InvoiceRegions, Region } from '../utils/invoiceRegions';
+
+export interface ViewerField {
+  path: string;
+  label: string;
+}
+
+interface InvoiceImageViewerProps {
+  image: Blob;
+  fileName?: string;
+  detections: OcrDetection[];
+  highlights: Region[];
+  highlightLabel?: string;
+  fields: ViewerField[];
+  onAssign: (path: string, text: string, region: Region) => void;
+  onClose: () => void;
+}
+
+const MIN_ZOOM = 0.1;
+const MAX_ZOOM = 4;
+
+/**
+ * The invoice photo with the OCR boxes of the selected field highlighted.
+ * Drag to pan, or switch to select mode and drag a box around a region to
+ * read it again or assign its text to a field.
+ */
+export const InvoiceImageViewer: React.FC<InvoiceImageViewerProps> = ({
+  image, fileName, detections, highlights, highlightLabel, fields, onAssign, onClose
+}) => {
+  const [url, setUrl] = useState<string | null>(null);
+  const [size, setSize] = useState<{ width: number; height: number } | null>(null);
+  const [zoom, setZoom] = useState(1);
+  const [mode, setMode] = useState<'pan' | 'select'>('pan');
+  const [drag, setDrag] = useState<{ startX: number; startY: number; scrollLeft: number; scrollTop: number; origin: [number, number] } | null>(null);
+  const [selection, setSelection] = useState<Region | null>(null);
+  const [regionText, setRegionText] = useState('');
+  const [targetField, setTargetField] = useState(fields[0]?.path || '');
+  const [isReading, setIsReading] = useState(false);
+  const [readError, setReadError] = useState<string | null>(null);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const next = URL.createObjectURL(image);
+    setUrl(next);
+    return () => URL.revokeObjectURL(next);
+  }, [image]);
+
+  const fitWidth = (natural = size) => {
+    const available = (scrollRef.current?.clientWidth || 600) - 16;
+    if (natural) setZoom(Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, available / natural.width)));
+  };
+
+  // Bring the highlighted boxes into view
+  useEffect(() => {
+    const container = scrollRef.current;
+    if (!container || highlights.length === 0) return;
+    const top = Math.min(...highlights.map(box => box[1])) * zoom;
+    const left = Math.min(...highlights.map(box => box[0])) * zoom;
+    container.scrollTo({ top: Math.max(0, top - container.clientHeight / 3), left: Math.max(0, left - 40), behavior: 'smooth' });
+  }, [highlights, zoom]);
+
+  const toImagePoint = (event: React.MouseEvent): [number, number] => {
+    const rect = canvasRef.current!.getBoundingClientRect();
+    return [(event.clientX - rect.left) / zoom, (event.clientY - rect.top) / zoom];
+  };
+
+  const handleMouseDown = (event: React.MouseEvent) => {
+    if (!size || event.button !== 0) return;
+    event.preventDefault();
+    const container = scrollRef.current!;
+    const origin = toImagePoint(event);
+    setDrag({ startX: event.clientX, startY: event.clientY, scrollLeft: container.scrollLeft, scrollTop: container.scrollTop, origin });
+    if (mode === 'select') {
+      setSelection([origin[0], origin[1], origin[0], origin[1]]);
+      setReadError(null);
+    }
+  };
+
+  const handleMouseMove = (event: React.MouseEvent) => {
+    if (!drag) return;
+    if (mode === 'pan') {
+      scrollRef.current!.scrollLeft = drag.scrollLeft - (event.clientX - drag.startX);
+      scrollRef.current!.scrollTop = drag.scrollTop - (event.clientY - drag.startY);
+      return;
+    }
+    const [x, y] = toImagePoint(event);
+    const [ox, oy] = drag.origin;
+    setSelection([Math.min(ox, x), Math.min(oy, y), Math.max(ox, x), Math.max(oy, y)]);
+  };
+
+  const handleMouseUp = () => {
+    if (!drag) return;
+    setDrag(null);
+    if (mode !== 'select' || !selection) return;
+    if (selection[2] - selection[0] < 4 || selection[3] - selection[1] < 4) {
+      setSelection(null); // A click, not a drag
+      return;
+    }
+    setRegionText(InvoiceRegions.textIn(selection, detections));
+  };
+
+  const readRegion = async () => {
+    if (!selection) return;
+    setIsReading(true);
+    setReadError(null);
+    try {
+      setRegionText(await InvoiceRegions.recognize(image, selection, fileName ? `region-${fileName}` : undefined));
+    } catch (error) {
+      setReadError((error as Error)?.message || 'Could not read the region');
+    } finally {
+      setIsReading(false);
+    }
+  };
+
+  const boxStyle = (box: Region) => ({
+    left: box[0] * zoom,
+    top: box[1] * zoom,
+    width: (box[2] - box[0]) * zoom,
+    height: (box[3] - box[1]) * zoom
+  });
+
+  return (
+    <div className="flex flex-col h-full">
+      {/* Toolbar */}
+      <div className="flex items-center gap-1 px-3 py-2 border-b border-gray-200 bg-gray-50 flex-shrink-0">
+        <button onClick={() => setMode('pan')} className={`p-1.5 rounded ${mode === 'pan' ? 'bg-blue-100 text-blue-700' : 'text-gray-600 hover:bg-gray-200'}`} title="Drag to pan">
+          <Hand className="w-4 h-4" />
+        </button>
+        <button onClick={() => setMode('select')} className={`p-1.5 rounded ${mode === 'select' ? 'bg-blue-100 text-blue-700' : 'text-gray-600 hover:bg-gray-200'}`} title="Drag to select a region">
+          <LassoSelect className="w-4 h-4" />
+        </button>
+        <span className="w-px h-5 bg-gray-300 mx-1" />
+        <button onClick={() => setZoom(z => Math.max(MIN_ZOOM, z / 1.25))} className="p-1.5 rounded text-gray-600 hover:bg-gray-200" title="Zoom out">
+          <ZoomOut className="w-4 h-4" />
+        </button>
+        <span className="text-xs text-gray-600 w-10 text-center">{Math.round(zoom * 100)}%</span>
+        <button onClick={() => setZoom(z => Math.min(MAX_ZOOM, z * 1.25))} className="p-1.5 rounded text-gray-600 hover:bg-gray-200" title="Zoom in">
+          <ZoomIn className="w-4 h-4" />
+        </button>
+        <button onClick={() => fitWidth()} className="p-1.5 rounded text-gray-600 hover:bg-gray-200" title="Fit to width">
+          <Maximize className="w-4 h-4" />
+        </button>
+        <span className="flex-1 text-xs text-gray-500 truncate text-right px-2">
+          {highlightLabel && (highlights.length > 0 ? highlightLabel : `${highlightLabel}: not found on the image`)}
+        </span>
+        <button onClick={onClose} className="p-1.5 rounded text-gray-500 hover:bg-gray-200" title="Hide image">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      {/* Image */}
+      <div
+        ref={scrollRef}
+        className={`flex-1 overflow-auto bg-gray-100 p-2 select-none ${mode === 'pan' ? (drag ? 'cursor-grabbing' : 'cursor-grab') : 'cursor-crosshair'}`}
+        onMouseDown={handleMouseDown}
+        onMouseMove={handleMouseMove}
+        onMouseUp={handleMouseUp}
+        onMouseLeave={handleMouseUp}
+      >
+        {url && (
+          <div
+            ref={canvasRef}
+            className="relative mx-auto"
+            style={size ? { width: size.width * zoom, height: size.height * zoom } : undefined}
+          >
+            <img
+              src={url}
+              alt="Invoice"
+              draggable={false}
+              className="block w-full h-full"
+              onLoad={(e) => {
+                const natural = { width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight };
+                setSize(natural);
+                fitWidth(natural);
+              }}
+            />
+            {highlights.map((box, idx) => (
+              <div key={idx} className="absolute border-2 border-amber-500 bg-amber-300/30 rounded-sm pointer-events-none" style={boxStyle(box)} />
+            ))}
+            {selection && (
+              <div className="absolute border-2 border-dashed border-blue-600 bg-blue-400/10 pointer-events-none" style={boxStyle(selection)} />
+            )}
+          </div>
+        )}
+      </div>
+
+      {/* Selected region */}
+      {selection && !drag && (
+        <div className="border-t border-gray-200 p-3 space-y-2 flex-shrink-0 bg-white">
+          <div className="flex items-center justify-between">
+            <span className="text-xs font-medium text-gray-700">Selected region</span>
+            <button onClick={() => setSelection(null)} className="text-xs text-gray-500 hover:text-gray-700 underline">
+              Clear
+            </button>
+          </div>
+          <textarea
+            value={regionText}
+            onChange={(e) => setRegionText(e.target.value)}
+            rows={2}
+            className="w-full px-2 py-1 border border-gray-300 rounded text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            placeholder="No OCR text in this region – read it again or type the value"
+          />
+          {readError && <p className="text-xs text-red-600">{readError}</p>}
+          <div className="flex flex-wrap items-center gap-2">
+            <button
+              onClick={readRegion}
+              disabled={isReading}
+              className="px-3 py-1.5 text-xs font-medium text-blue-700 border border-blue-200 bg-blue-50 hover:bg-blue-100 rounded-lg transition disabled:opacity-50 flex items-center gap-1"
+            >
+              {isReading ? <Loader2 className="w-3 h-3 animate-spin" /> : <ScanText className="w-3 h-3" />}
+              Re-OCR region
+            </button>
+            <select
+              value={targetField}
+              onChange={(e) => setTargetField(e.target.value)}
+              className="flex-1 min-w-0 px-2 py-1.5 border border-gray-300 rounded-lg text-xs"
+            >
+              {fields.map(field => (
+                <option key={field.path} value={field.path}>{field.label}</option>
+              ))}
+            </select>
+            <button
+              onClick={() => {
+                onAssign(targetField, regionText.trim(), selection);
+                setSelection(null);
+              }}
+              disabled={!regionText.trim() || !targetField}
+              className="px-3 py-1.5 text-xs font-medium text-white bg-blue-600 hover:bg-blue-700 rounded-lg transition disabled:opacity-50"
+            >
+              Assign
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
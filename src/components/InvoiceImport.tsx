@@ -1,6 +1,49 @@
-import React, { useState, useEffect } from 'react';
-import { X, AlertTriangle, CheckCircle, Upload, Plus, Trash2 } from 'lucide-react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { X, AlertTriangle, CheckCircle, Upload, Plus, Trash2, ShieldCheck, ShieldAlert, Copy, Link2, RotateCcw, XCircle, Package, Image as ImageIcon, QrCode } from 'lucide-react';
 import { supabase } from '../utils/supabaseClient';
+import { GstinValidator } from '../utils/gstinValidator';
+import { ProvenanceTracker } from '../utils/invoiceProvenance';
+import { InvoiceReconciler } from '../utils/invoiceReconciler';
+import { GstCalculator, STANDARD_GST_RATES } from '../utils/gstTax';
+import { DuplicateInvoiceDetector } from '../utils/duplicateInvoiceDetector';
+import { SupplierProfileStore } from '../utils/supplierProfiles';
+import { ExtractionFeedback } from '../utils/extractionFeedback';
+import { AUTO_LINK_SCORE, ProductMatcher } from '../utils/productMatcher';
+import { PartyMatcher } from '../utils/partyMatcher';
+import { ImportSaga, unwrap } from '../utils/importSaga';
+import { StockAdjuster, StockLevel } from '../utils/stockAdjustment';
+import { BillNumbering } from '../utils/billNumbering';
+import { InvoiceDateNormalizer, LOW_DATE_CONFIDENCE, financialYear } from '../utils/dateNormalizer';
+import { BASE_CURRENCY, CURRENCIES, CurrencyDetector, ExchangeRateTable, parseAmount } from '../utils/currency';
+import { Region } from '../utils/invoiceRegions';
+import { InvoiceImageViewer, ViewerField } from './InvoiceImageViewer';
+import {
+  EXPENSE_CATEGORIES,
+  ExpenseCategory,
+  InvoiceDirectionDetector,
+  getBusinessGstins,
+  saveBusinessGstins
+} from '../utils/invoiceDirection';
+import {
+  AmountInWordsCheck,
+  BillNumberPreview,
+  BillNumberSeries,
+  DuplicateCandidate,
+  DuplicateResolution,
+  EInvoiceCheck,
+  FieldProvenance,
+  InvoiceCorrection,
+  CostMethod,
+  ImportReport,
+  InvoiceDirection,
+  InvoiceFieldError,
+  InvoiceProvenance,
+  ExtractionCorrection,
+  OcrResponse,
+  PaymentStatus,
+  ProductMatch,
+  SupplyType
+} from '../types/invoice';
 
 interface InvoiceItem {
   productId?: string;
@@ -9,26 +52,46 @@ interface InvoiceItem {
   rate?: number;
   gst?: number;
   total?: number;
+  hsnSac?: string;
+  taxableValue?: number;
+  gstRate?: number;
+  cgst?: number;
+  sgst?: number;
+  igst?: number;
 }
 
 interface InvoiceData {
   companyName?: string;
   address?: string;
   gstNumber?: string;
+  buyerGstin?: string;
   date?: string;
   invoiceNumber?: string;
   customerId?: string;
   items: InvoiceItem[];
   subtotal?: number;
   taxes?: number;
+  discount?: number;
   grandTotal?: number;
+  currency?: string;
+  supplyType?: SupplyType;
   comments?: string;
   signatures?: string[];
+  fieldErrors?: InvoiceFieldError[];
+  provenance?: InvoiceProvenance;
+  amountInWords?: AmountInWordsCheck;
+  raw?: OcrResponse;
+  fileName?: string;
+  image?: Blob;
+  eInvoice?: EInvoiceCheck;
 }
 
 interface Customer {
   id: string;
   name: string;
+  gstin?: string | null;
+  address?: string | null;
+  state?: string | null;
 }
 
 interface Product {
@@ -45,8 +108,51 @@ interface BillItem {
   quantity: number;
   price: number;
   total: number;
+  sourceIndex?: number; // Position in invoice.items, used to look up provenance
+  hsnSac?: string;
+  gstRate: number;
+  extractedTotal?: number; // Line amount as printed on the invoice
+  suggestions?: ProductMatch[]; // Ranked catalog matches for unlinked lines
+  createProduct?: boolean; // User confirmed this line is a new catalog product
 }
 
+// Corrections worth replaying on the supplier's next invoice
+const SUPPLIER_CORRECTION_FIELDS = ['gstNumber', 'items[].name', 'items[].quantity', 'items[].rate'];
+
+const REVIEW_FIELD_LABELS: Record<string, string> = {
+  companyName: 'Company name',
+  address: 'Address',
+  gstNumber: 'GSTIN',
+  date: 'Invoice date',
+  invoiceNumber: 'Invoice number',
+  customerId: 'Customer',
+  subtotal: 'Subtotal',
+  taxes: 'Taxes',
+  grandTotal: 'Grand total'
+};
+
+// Form values the image viewer can highlight and fill from a selected region
+const BILL_ITEM_PATH = /^billItems\[(\d+)\]\.(productName|quantity|price)$/;
+
+const amountIn = (text: string) => {
+  const match = text.match(/\d[\d,]*(?:\.\d+)?/);
+  return match ? parseAmount(match[0]) : NaN;
+};
+
+const describeProvenance = (provenance: FieldProvenance): string => {
+  if (provenance.source === 'imputed') return 'Imputed default';
+  const parts = [`${Math.round(provenance.confidence * 100)}% confidence from ${provenance.source.toUpperCase()}`];
+  if (provenance.agreement === 'disagree' && provenance.ocrValue !== undefined) {
+    parts.push(`OCR read "${provenance.ocrValue}"`);
+  }
+  return parts.join(' · ');
+};
+
+const reviewClass = (provenance?: FieldProvenance): string => {
+  if (!ProvenanceTracker.needsReview(provenance)) return 'border-gray-300';
+  return provenance?.source === 'imputed' ? 'border-gray-400 border-dashed bg-gray-50' : 'border-amber-400 bg-amber-50';
+};
+
 interface InvoiceImportProps {
   invoice: InvoiceData;
   onClose: () => void;
@@ -62,9 +168,82 @@ export const InvoiceImport: React.FC<InvoiceImportProps> = ({ invoice, onClose,
   
   // Follow BillGenerator pattern EXACTLY
   const [selectedCustomer, setSelectedCustomer] = useState<string>('');
-  const [newCustomerName, setNewCustomerName] = useState(invoice.companyName || '');
-  const [billDate, setBillDate] = useState(new Date().toISOString().split('T')[0]); // DEFAULT current date
+  // The printed date, read with the supplier's known dd/mm or mm/dd habit; today when none was found
+  const [extractedDate] = useState(() => InvoiceDateNormalizer.normalize(
+    invoice.provenance?.date?.source === 'imputed' ? undefined : invoice.date,
+    { dateFormat: SupplierProfileStore.match(invoice.raw?.full_text || '', invoice.gstNumber)?.dateFormat }
+  ));
+  const [billDate, setBillDate] = useState(extractedDate?.iso ?? new Date().toISOString().split('T')[0]);
+  const dateNeedsReview = !extractedDate || (extractedDate.confidence < LOW_DATE_CONFIDENCE && billDate === extractedDate.iso);
   const [billItems, setBillItems] = useState<BillItem[]>([]);
+  const [supplierGstin, setSupplierGstin] = useState(invoice.gstNumber && invoice.gstNumber !== 'N/A' ? invoice.gstNumber : '');
+  const gstinCheck = useMemo(() => GstinValidator.validate(supplierGstin), [supplierGstin]);
+  const supplierGstinKey = gstinCheck.isValid ? gstinCheck.normalized : undefined;
+  const [printedTotals, setPrintedTotals] = useState({
+    subtotal: invoice.subtotal ?? 0,
+    taxes: invoice.taxes ?? 0,
+    grandTotal: invoice.grandTotal ?? 0
+  });
+  const [acknowledgeDiscrepancies, setAcknowledgeDiscrepancies] = useState(false);
+  const [supplyTypeOverride, setSupplyTypeOverride] = useState<SupplyType | ''>('');
+  const [discountAmount, setDiscountAmount] = useState((invoice.discount ?? 0).toFixed(2));
+  const [duplicateCandidates, setDuplicateCandidates] = useState<DuplicateCandidate[]>([]);
+  const [importReport, setImportReport] = useState<ImportReport | null>(null);
+  const [recordPurchase, setRecordPurchase] = useState(false);
+  const [businessGstins, setBusinessGstins] = useState(() => getBusinessGstins());
+  const [businessGstinInput, setBusinessGstinInput] = useState(businessGstins.join(', '));
+  const directionInput = {
+    companyName: invoice.companyName,
+    supplierGstin: invoice.gstNumber,
+    buyerGstin: invoice.buyerGstin,
+    fullText: invoice.raw?.full_text,
+    items: invoice.items
+  };
+  const detectedDirection = InvoiceDirectionDetector.detect(directionInput, businessGstins);
+  const [direction, setDirection] = useState<InvoiceDirection>(detectedDirection.direction);
+  // The invoice names the seller, which is ourselves on a sale, so a buyer's name has to be entered
+  const defaultPartyName = (forDirection: InvoiceDirection) => forDirection === 'sale' ? '' : invoice.companyName || '';
+  const [newCustomerName, setNewCustomerName] = useState(() => defaultPartyName(detectedDirection.direction));
+  const [paymentStatus, setPaymentStatus] = useState<PaymentStatus>(detectedDirection.direction === 'sale' ? 'Paid' : 'Unpaid');
+  const [expenseCategory, setExpenseCategory] = useState<ExpenseCategory>(
+    () => InvoiceDirectionDetector.inferCategory({ ...directionInput, direction: detectedDirection.direction }).category
+  );
+  const partyLabel = direction === 'sale' ? 'Customer' : 'Supplier';
+  // The party is the buyer on our sales and the supplier on everything else
+  const partyGstinInput = direction === 'sale' ? invoice.buyerGstin || '' : supplierGstin;
+  const partyGstin = GstinValidator.isValid(partyGstinInput) ? GstinValidator.normalize(partyGstinInput) : undefined;
+  const partyAddress = direction !== 'sale' && invoice.address && invoice.address !== 'N/A' ? invoice.address : undefined;
+  const partyMatches = useMemo(
+    () => PartyMatcher.rank({ name: newCustomerName, gstin: partyGstin, address: partyAddress }, customers),
+    [newCustomerName, partyGstin, partyAddress, customers]
+  );
+  const changeDirection = (next: InvoiceDirection) => {
+    setDirection(next);
+    setExpenseCategory(InvoiceDirectionDetector.inferCategory({ ...directionInput, direction: next }).category);
+    if ((next === 'sale') !== (direction === 'sale')) {
+      setNewCustomerName(defaultPartyName(next));
+      setSelectedCustomer('');
+    }
+  };
+  const [costMethod, setCostMethod] = useState<CostMethod>('weighted-average');
+  const provenance = invoice.provenance || {};
+  // The supplier's own number is only a reference; our bill number comes from the numbering series
+  const [supplierInvoiceNumber, setSupplierInvoiceNumber] = useState(
+    invoice.invoiceNumber && invoice.invoiceNumber !== 'N/A' && provenance.invoiceNumber?.source !== 'imputed'
+      ? invoice.invoiceNumber
+      : ''
+  );
+  const [billSeries, setBillSeries] = useState<BillNumberSeries>(() => BillNumbering.getSeries(detectedDirection.direction));
+  const [seriesDraft, setSeriesDraft] = useState<string | null>(null); // Pattern being edited
+  const [numberingPreview, setNumberingPreview] = useState<BillNumberPreview | null>(null);
+  const [currency, setCurrency] = useState(
+    () => CurrencyDetector.normalize(invoice.currency) || CurrencyDetector.detect(invoice.raw?.full_text || '').currency
+  );
+  const [rateInput, setRateInput] = useState('');
+  const [showImage, setShowImage] = useState(true);
+  const [activeField, setActiveField] = useState<string | null>(null);
+  const [assignedRegions, setAssignedRegions] = useState<Record<string, Region>>({});
+  const fieldsToReview = Object.keys(REVIEW_FIELD_LABELS).filter(field => ProvenanceTracker.needsReview(provenance[field]));
   
   // For adding new items
   const [selectedProduct, setSelectedProduct] = useState('');
@@ -77,29 +256,60 @@ export const InvoiceImport: React.FC<InvoiceImportProps> = ({ invoice, onClose,
     loadData();
   }, []);
 
+  // Link a confidently matched party once, when the customers have loaded
+  const partyAutoLinked = useRef(false);
+  useEffect(() => {
+    if (loadingData || partyAutoLinked.current) return;
+    partyAutoLinked.current = true;
+    const autoParty = PartyMatcher.autoLink(partyMatches);
+    if (autoParty) setSelectedCustomer(autoParty.partyId);
+  }, [loadingData, partyMatches]);
+
+  useEffect(() => {
+    setBillSeries(BillNumbering.getSeries(direction));
+    setSeriesDraft(null);
+  }, [direction]);
+
+  // Next number of the series for the bill's financial year
+  useEffect(() => {
+    if (!billDate) return;
+    let cancelled = false;
+    BillNumbering.preview(billSeries, billDate)
+      .then(preview => { if (!cancelled) setNumberingPreview(preview); })
+      .catch(error => console.warn('Could not preview the bill number:', error));
+    return () => { cancelled = true; };
+  }, [billSeries, billDate]);
+
   // Pre-populate items from invoice
   useEffect(() => {
     if (invoice.items && invoice.items.length > 0 && products.length > 0) {
       const mappedItems = invoice.items
-        .filter(item => item.name && item.name !== 'N/A' && item.quantity && item.rate)
-        .map(item => {
-          // Try to find matching product
-          const matchingProduct = products.find(p => 
-            p.name.toLowerCase() === item.name?.toLowerCase()
-          );
+        .map((item, sourceIndex) => ({ item, sourceIndex }))
+        .filter(({ item }) => item.name && item.name !== 'N/A' && item.quantity && item.rate)
+        .map(({ item, sourceIndex }) => {
+          // Rank catalog products; only a confident match is linked without asking
+          const suggestions = ProductMatcher.rank(item.name || '', products, {
+            supplierGstin: invoice.gstNumber ? GstinValidator.normalize(invoice.gstNumber) : undefined
+          });
+          const matchingProduct = suggestions[0]?.score >= AUTO_LINK_SCORE ? suggestions[0] : undefined;
           
           return {
-            productId: matchingProduct?.id || '',
+            productId: matchingProduct?.productId || '',
             productName: item.name || '',
             quantity: item.quantity || 1,
             price: item.rate || 0,
-            total: (item.quantity || 1) * (item.rate || 0)
+            total: (item.quantity || 1) * (item.rate || 0),
+            sourceIndex,
+            hsnSac: item.hsnSac,
+            gstRate: GstCalculator.resolveRate(item),
+            extractedTotal: item.total,
+            suggestions
           };
         });
       
       setBillItems(mappedItems);
     }
-  }, [invoice.items, products]);
+  }, [invoice.items, invoice.gstNumber, products]);
 
   const loadData = async () => {
     if (!supabase) {
@@ -109,7 +319,7 @@ export const InvoiceImport: React.FC<InvoiceImportProps> = ({ invoice, onClose,
 
     try {
       const [{ data: customersData }, { data: productsData }] = await Promise.all([
-        supabase.from('customers').select('id, name'),
+        supabase.from('customers').select('*'), // GSTIN, address and state when the schema has them
         supabase.from('products').select('id, name, cost_price, selling_price, stock')
       ]);
 
@@ -148,7 +358,9 @@ export const InvoiceImport: React.FC<InvoiceImportProps> = ({ invoice, onClose,
       productName,
       quantity: parseFloat(quantity),
       price: itemPrice,
-      total: parseFloat(quantity) * itemPrice
+      total: parseFloat(quantity) * itemPrice,
+      gstRate: 0,
+      createProduct: !productId // Typing a new name is the confirmation
     };
 
     setBillItems([...billItems, newItem]);
@@ -171,17 +383,176 @@ export const InvoiceImport: React.FC<InvoiceImportProps> = ({ invoice, onClose,
     if (field === 'quantity' || field === 'price') {
       newItems[index].total = newItems[index].quantity * newItems[index].price;
     }
+
+    if (field === 'productName' && !newItems[index].productId) {
+      newItems[index].suggestions = ProductMatcher.rank(value, products, { supplierGstin: supplierGstinKey });
+    }
     
     setBillItems(newItems);
   };
 
+  const linkProduct = (index: number, productId: string) => {
+    setBillItems(items => items.map((item, i) => (i === index ? {
+      ...item,
+      productId,
+      createProduct: false,
+      suggestions: productId ? item.suggestions : ProductMatcher.rank(item.productName, products, { supplierGstin: supplierGstinKey })
+    } : item)));
+  };
+
+  const confirmNewProducts = () => {
+    setBillItems(items => items.map(item => (item.productId ? item : { ...item, createProduct: true })));
+  };
+
+  // Expense lines (rent, electricity…) are not catalog products
+  const unresolvedItems = direction === 'expense' ? [] : billItems.filter(item => !item.productId && !item.createProduct);
+
   const total = billItems.reduce((sum, item) => sum + item.total, 0);
 
+  const gstBreakdown = useMemo(() => GstCalculator.breakdown(
+    billItems.map(item => ({ quantity: item.quantity, rate: item.price, gstRate: item.gstRate })),
+    supplierGstin,
+    invoice.buyerGstin,
+    supplyTypeOverride || undefined
+  ), [billItems, supplierGstin, invoice.buyerGstin, supplyTypeOverride]);
+  const taxAmount = gstBreakdown.totals.totalTax;
+  const discount = parseFloat(discountAmount) || 0;
+  const grandTotal = Math.round((total + taxAmount - discount) * 100) / 100;
+
+  // Amounts are reviewed in the invoice currency and stored in the base currency as well
+  const isForeign = currency !== BASE_CURRENCY;
+  const symbol = CurrencyDetector.symbol(currency);
+  const exchangeRate = billDate ? ExchangeRateTable.rateOn(currency, billDate) : null;
+  const toBase = (amount: number) => (exchangeRate ? ExchangeRateTable.convert(amount, exchangeRate) : amount);
+
+  // Goods received: quantities per product at their taxable (ex-GST) unit cost
+  const receivedLinesOf = (items: BillItem[]) => items.map((item, idx) => ({
+    productId: item.productId,
+    productName: item.productName,
+    quantity: item.quantity,
+    taxableValue: toBase(gstBreakdown.lines[idx]?.taxableValue ?? item.total)
+  }));
+  const addToStock = recordPurchase && direction === 'purchase';
+  const stockPreview = addToStock
+    ? StockAdjuster.plan(
+        receivedLinesOf(billItems).filter((_, idx) => billItems[idx].productId || billItems[idx].createProduct),
+        products,
+        costMethod
+      )
+    : [];
+
+  // Check the reviewed lines against the totals printed on the invoice
+  const reconciliation = useMemo(() => InvoiceReconciler.reconcile({
+    items: [
+      ...billItems.map(item => ({
+        name: item.productName,
+        quantity: item.quantity,
+        rate: item.price,
+        gstRate: item.gstRate,
+        total: item.extractedTotal ?? item.total
+      })),
+      ...invoice.items.filter(item => InvoiceReconciler.isRoundOffLine(item))
+    ],
+    ...printedTotals,
+    discount,
+    amountInWords: invoice.amountInWords?.amount
+  }), [billItems, invoice.items, printedTotals, discount, invoice.amountInWords]);
+
+  const applyCorrection = (correction: InvoiceCorrection) => {
+    const lineMatch = correction.path.match(/^items\[(\d+)\]\.(quantity|rate|total)$/);
+    if (lineMatch) {
+      const index = Number(lineMatch[1]);
+      if (index >= billItems.length) return;
+      if (lineMatch[2] === 'quantity') updateItem(index, 'quantity', correction.value);
+      else if (lineMatch[2] === 'rate') updateItem(index, 'price', correction.value);
+      else updateItem(index, 'extractedTotal', correction.value);
+      return;
+    }
+    if (correction.path === 'subtotal' || correction.path === 'taxes' || correction.path === 'grandTotal') {
+      setPrintedTotals(prev => ({ ...prev, [correction.path]: correction.value }));
+    }
+  };
+
+  const viewerFields: ViewerField[] = [
+    { path: 'companyName', label: `${partyLabel} name` },
+    { path: 'gstNumber', label: 'Supplier GSTIN' },
+    { path: 'invoiceNumber', label: 'Invoice number' },
+    { path: 'date', label: 'Bill date' },
+    { path: 'grandTotal', label: 'Printed grand total' },
+    ...billItems.flatMap((_, idx) => [
+      { path: `billItems[${idx}].productName`, label: `Item ${idx + 1}: name` },
+      { path: `billItems[${idx}].quantity`, label: `Item ${idx + 1}: quantity` },
+      { path: `billItems[${idx}].price`, label: `Item ${idx + 1}: rate` }
+    ])
+  ];
+
+  // OCR boxes that produced the focused field's extracted value, or the region it was assigned from
+  const highlights = useMemo((): Region[] => {
+    if (!activeField) return [];
+    if (assignedRegions[activeField]) return [assignedRegions[activeField]];
+
+    let value: string | number | undefined;
+    const line = activeField.match(BILL_ITEM_PATH);
+    if (line) {
+      const item = billItems[Number(line[1])];
+      const source = item?.sourceIndex !== undefined ? invoice.items[item.sourceIndex] : undefined;
+      if (line[2] === 'productName') value = source?.name || item?.productName;
+      else if (line[2] === 'quantity') value = source?.quantity ?? item?.quantity;
+      else value = source?.rate ?? item?.price;
+    } else {
+      value = invoice[activeField as 'companyName' | 'gstNumber' | 'invoiceNumber' | 'date' | 'grandTotal'];
+    }
+    if (value === undefined || value === '' || value === 'N/A') return [];
+
+    return ProvenanceTracker.supportingDetections(value, invoice.raw?.detections || [])
+      .filter(detection => detection.bbox)
+      .map(detection => detection.bbox!);
+  }, [activeField, assignedRegions, billItems, invoice]);
+
+  const assignRegion = (path: string, text: string, region: Region) => {
+    const singleLine = text.replace(/\s+/g, ' ').trim();
+    const line = path.match(BILL_ITEM_PATH);
+    if (line) {
+      const field = line[2] as 'productName' | 'quantity' | 'price';
+      const value = field === 'productName' ? singleLine : amountIn(text);
+      if (typeof value === 'number' && isNaN(value)) {
+        setErrors([`"${singleLine}" is not a number`]);
+        return;
+      }
+      updateItem(Number(line[1]), field, value);
+    } else if (path === 'companyName') {
+      setSelectedCustomer('');
+      setNewCustomerName(singleLine);
+    } else if (path === 'gstNumber') {
+      setSupplierGstin(text.toUpperCase().replace(/[^0-9A-Z]/g, ''));
+    } else if (path === 'invoiceNumber') {
+      setSupplierInvoiceNumber(singleLine);
+    } else if (path === 'date') {
+      const date = InvoiceDateNormalizer.normalize(singleLine, {
+        dateFormat: SupplierProfileStore.match(invoice.raw?.full_text || '', invoice.gstNumber)?.dateFormat
+      });
+      if (!date) {
+        setErrors([`"${singleLine}" is not a date`]);
+        return;
+      }
+      setBillDate(date.iso);
+    } else if (path === 'grandTotal') {
+      const amount = amountIn(text);
+      if (isNaN(amount)) {
+        setErrors([`"${singleLine}" is not an amount`]);
+        return;
+      }
+      setPrintedTotals(prev => ({ ...prev, grandTotal: amount }));
+    }
+    setAssignedRegions(prev => ({ ...prev, [path]: region }));
+    setActiveField(path);
+  };
+
   const validateData = (): string[] => {
     const validationErrors: string[] = [];
     
     if (!selectedCustomer && !newCustomerName) {
-      validationErrors.push('Please select a customer or enter a new customer name');
+      validationErrors.push(`Please select a ${partyLabel.toLowerCase()} or enter a new ${partyLabel.toLowerCase()} name`);
     }
     
     if (!billDate) {
@@ -192,6 +563,18 @@ export const InvoiceImport: React.FC<InvoiceImportProps> = ({ invoice, onClose,
       validationErrors.push('Please add at least one item');
     }
     
+    if (discount < 0 || discount > total + taxAmount) {
+      validationErrors.push('Discount must be between 0 and the bill total');
+    }
+    
+    if (reconciliation.hasErrors && !acknowledgeDiscrepancies) {
+      validationErrors.push('Amounts do not reconcile with the invoice. Apply a suggested correction or confirm the amounts below.');
+    }
+
+    if (unresolvedItems.length > 0) {
+      validationErrors.push(`Link ${unresolvedItems.length} item(s) to a catalog product or confirm them as new products`);
+    }
+    
     billItems.forEach((item, idx) => {
       if (!item.productName) {
         validationErrors.push(`Item ${idx + 1}: Product name is required`);
@@ -203,11 +586,88 @@ export const InvoiceImport: React.FC<InvoiceImportProps> = ({ invoice, onClose,
         validationErrors.push(`Item ${idx + 1}: Price must be greater than 0`);
       }
     });
+
+    if (!exchangeRate) {
+      validationErrors.push(`Enter the ${currency} → ${BASE_CURRENCY} exchange rate for ${billDate || 'the bill date'}`);
+    }
     
     return validationErrors;
   };
 
-  const handleImport = async () => {
+  // Linked names are suggested first the next time they are extracted
+  const rememberProductLinks = (items: BillItem[]) => {
+    try {
+      items.filter(item => item.productId).forEach(item => {
+        const product = { id: item.productId, name: products.find(p => p.id === item.productId)?.name || item.productName };
+        const extractedName = item.sourceIndex !== undefined ? invoice.items[item.sourceIndex]?.name : undefined;
+        new Set([item.productName, extractedName].filter((name): name is string => !!name))
+          .forEach(name => ProductMatcher.remember(name, product, supplierGstinKey));
+      });
+    } catch (error) {
+      console.warn('Could not save product links:', error);
+    }
+  };
+
+  // Record what the reviewer changed, for the accuracy dashboard and regression fixtures
+  const recordExtractionReview = (items: BillItem[]): ExtractionCorrection[] => {
+    const customerName = customers.find(c => c.id === selectedCustomer)?.name || newCustomerName;
+    try {
+      return ExtractionFeedback.record(invoice, {
+        companyName: customerName,
+        gstNumber: supplierGstin ? GstinValidator.normalize(supplierGstin) : undefined,
+        invoiceNumber: supplierInvoiceNumber || undefined,
+        billDate,
+        grandTotal: printedTotals.grandTotal,
+        items: items.map(item => ({
+          name: item.productName,
+          quantity: item.quantity,
+          rate: item.price,
+          gstRate: item.gstRate,
+          hsnSac: item.hsnSac,
+          sourceIndex: item.sourceIndex
+        }))
+      }, customerName).corrections;
+    } catch (error) {
+      console.warn('Could not record extraction review:', error);
+      return [];
+    }
+  };
+
+  // Remember how this supplier's invoices look so the next one extracts better
+  const learnSupplierProfile = (items: BillItem[], reviewCorrections: ExtractionCorrection[]) => {
+    if (!gstinCheck.isValid) return;
+
+    const corrections = reviewCorrections
+      .filter(c => SUPPLIER_CORRECTION_FIELDS.includes(c.field) && c.before !== '')
+      .map(c => ({ path: c.field, extracted: c.before, corrected: c.after }));
+
+    try {
+      SupplierProfileStore.learn({
+        gstin: supplierGstin,
+        companyName: direction === 'sale' ? invoice.companyName || '' : newCustomerName || invoice.companyName || '',
+        address: invoice.address && invoice.address !== 'N/A' ? invoice.address : undefined,
+        billDate,
+        printedDate: invoice.date && invoice.date !== 'N/A' ? invoice.date : undefined,
+        invoiceNumber: supplierInvoiceNumber || undefined,
+        grandTotal,
+        supplyType: gstBreakdown.supplyType,
+        gstInclusiveLines: reconciliation.discrepancies.some(d => d.type === 'gst_inclusive_line'),
+        items: items.map(item => ({
+          name: item.productName,
+          hsnSac: item.hsnSac,
+          gstRate: item.gstRate,
+          rate: item.price,
+          productId: item.productId || undefined
+        })),
+        corrections,
+        detections: invoice.raw?.detections
+      });
+    } catch (error) {
+      console.warn('Could not update supplier profile:', error);
+    }
+  };
+
+  const handleImport = async (resolution?: DuplicateResolution) => {
     const validationErrors = validateData();
     
     if (validationErrors.length > 0) {
@@ -217,10 +677,33 @@ export const InvoiceImport: React.FC<InvoiceImportProps> = ({ invoice, onClose,
     
     setIsImporting(true);
     setErrors([]);
+    setImportReport(null);
+
+    // Everything written below is undone if a later write fails
+    const saga = new ImportSaga();
     
     try {
       if (!supabase) throw new Error('Supabase not configured');
 
+      const duplicateCheck = {
+        supplierGstin: supplierGstin ? GstinValidator.normalize(supplierGstin) : undefined,
+        invoiceNumber: supplierInvoiceNumber || undefined,
+        billDate,
+        totalAmount: toBase(grandTotal),
+        items: billItems.map(item => ({ name: item.productName, quantity: item.quantity, rate: item.price }))
+      };
+
+      // 0. Stop before writing anything if this invoice looks already imported
+      if (!resolution) {
+        const candidates = await DuplicateInvoiceDetector.findCandidates(duplicateCheck);
+        if (candidates.length > 0) {
+          setDuplicateCandidates(candidates);
+          return;
+        }
+      }
+      setDuplicateCandidates([]);
+
+      const db = supabase;
       let finalCustomerId = selectedCustomer;
 
       // 1. Handle customer - Check if exists first, then create if needed
@@ -230,34 +713,42 @@ export const InvoiceImport: React.FC<InvoiceImportProps> = ({ invoice, onClose,
           finalCustomerId = customer.id;
         }
       } else if (newCustomerName) {
-        // Check if customer with this name already exists
-        const { data: existingCustomer } = await supabase
-          .from('customers')
-          .select('id')
-          .eq('name', newCustomerName)
-          .single();
+        // Check if the party already exists under its GSTIN (when the schema has it) or this exact name
+        const { data: byGstin } = partyGstin
+          ? await db.from('customers').select('id').eq('gstin', partyGstin).limit(1)
+          : { data: null };
+        const { data: byName } = byGstin?.length
+          ? { data: null }
+          : await db.from('customers').select('id').eq('name', newCustomerName).limit(1);
+        const existingCustomer = byGstin?.[0] || byName?.[0];
         
         if (existingCustomer) {
           // Customer already exists, use existing ID
           finalCustomerId = existingCustomer.id;
         } else {
           // Create new customer only if doesn't exist
-          const { data: newCustomer, error: customerError } = await supabase
-            .from('customers')
-            .insert({
-              name: newCustomerName,
-              total_revenue: 0,
-              total_cost: 0,
-              total_profit: 0,
-              profit_margin: 0,
-              bill_count: 0,
-              segment: 'Low Value',
-              last_purchase_date: billDate
-            })
-            .select('id')
-            .single();
-          
-          if (customerError) throw customerError;
+          const newCustomer = await saga.run(
+            `Create customer "${newCustomerName}"`,
+            'customers',
+            () => unwrap<{ id: string }>(db
+              .from('customers')
+              .insert({
+                name: newCustomerName,
+                gstin: partyGstin || null,
+                address: partyAddress || null,
+                state: partyGstin ? GstinValidator.decodeState(partyGstin.slice(0, 2)) || null : null,
+                total_revenue: 0,
+                total_cost: 0,
+                total_profit: 0,
+                profit_margin: 0,
+                bill_count: 0,
+                segment: 'Low Value',
+                last_purchase_date: billDate
+              })
+              .select('id')
+              .single()),
+            created => unwrap(db.from('customers').delete().eq('id', created.id))
+          );
           finalCustomerId = newCustomer.id;
         }
       }
@@ -269,14 +760,14 @@ export const InvoiceImport: React.FC<InvoiceImportProps> = ({ invoice, onClose,
       for (const item of billItems) {
         let productId = item.productId;
         
-        // If product doesn't have an ID, try to find or create it
-        if (!productId && item.productName) {
+        // Unlinked lines reach here only when the user confirmed them as new products
+        if (!productId && item.productName && item.createProduct && direction !== 'expense') {
           // Check cache first (in case same product appears multiple times in this import)
           if (productCache.has(item.productName)) {
             productId = productCache.get(item.productName)!;
           } else {
             // Check if product exists in database
-            const { data: existingProduct } = await supabase
+            const { data: existingProduct } = await db
               .from('products')
               .select('id')
               .eq('name', item.productName)
@@ -285,32 +776,30 @@ export const InvoiceImport: React.FC<InvoiceImportProps> = ({ invoice, onClose,
             if (existingProduct) {
               // Product exists, use existing ID
               productId = existingProduct.id;
-              productCache.set(item.productName, productId);
             } else {
               // Create new product only if doesn't exist
-              const { data: newProduct, error: productError } = await supabase
-                .from('products')
-                .insert({
-                  name: item.productName,
-                  cost_price: item.price * 0.7, // Estimate: 70% of selling price
-                  selling_price: item.price,
-                  stock: 0,
-                  reorder_threshold: 10,
-                  lead_time: 7,
-                  category: 'Uncategorized',
-                  status: 'Out of Stock'
-                })
-                .select('id')
-                .single();
-              
-              if (productError) {
-                console.warn(`Could not create product ${item.productName}:`, productError);
-                // Continue without product ID
-              } else {
-                productId = newProduct.id;
-                productCache.set(item.productName, productId); // Add to cache
-              }
+              const newProduct = await saga.run(
+                `Create product "${item.productName}"`,
+                'products',
+                () => unwrap<{ id: string }>(db
+                  .from('products')
+                  .insert({
+                    name: item.productName,
+                    cost_price: toBase(item.price * 0.7), // Estimate: 70% of selling price
+                    selling_price: toBase(item.price),
+                    stock: 0,
+                    reorder_threshold: 10,
+                    lead_time: 7,
+                    category: 'Uncategorized',
+                    status: 'Out of Stock'
+                  })
+                  .select('id')
+                  .single()),
+                created => unwrap(db.from('products').delete().eq('id', created.id))
+              );
+              productId = newProduct.id;
             }
+            productCache.set(item.productName, productId); // Add to cache
           }
         }
         
@@ -321,48 +810,206 @@ export const InvoiceImport: React.FC<InvoiceImportProps> = ({ invoice, onClose,
       }
 
       // 3. Insert bill - EXACTLY like BillGenerator addBill logic
-      const billNumber = `B${Date.now()}`;
       const dbPayload = {
-        bill_number: billNumber,
         customer_id: finalCustomerId,
         bill_date: billDate, // YYYY-MM-DD format
-        subtotal: total,
-        tax_amount: 0,
-        discount_amount: 0,
-        total_amount: total,
-        status: 'Paid'
+        subtotal: toBase(total),
+        tax_amount: toBase(taxAmount),
+        discount_amount: toBase(discount),
+        total_amount: toBase(grandTotal),
+        cgst_amount: toBase(gstBreakdown.totals.cgst),
+        sgst_amount: toBase(gstBreakdown.totals.sgst),
+        igst_amount: toBase(gstBreakdown.totals.igst),
+        // The invoice's own currency and amounts, and the dated rate used to convert them
+        currency,
+        exchange_rate: exchangeRate?.rate ?? 1,
+        exchange_rate_date: exchangeRate?.date ?? billDate,
+        original_subtotal: total,
+        original_tax_amount: taxAmount,
+        original_total_amount: grandTotal,
+        supply_type: gstBreakdown.supplyType,
+        supplier_gstin: duplicateCheck.supplierGstin || null,
+        supplier_invoice_number: duplicateCheck.invoiceNumber || null,
+        supplier_invoice_key: DuplicateInvoiceDetector.invoiceKey(duplicateCheck.invoiceNumber) || null,
+        invoice_fingerprint: DuplicateInvoiceDetector.fingerprint(duplicateCheck.items),
+        direction,
+        status: paymentStatus,
+        irn: invoice.eInvoice?.payload.irn || null
         // Note: remarks column doesn't exist in bills table schema
       };
       
-      const { data: bill, error: billError } = await supabase
-        .from('bills')
-        .insert(dbPayload)
-        .select('id')
-        .single();
-      
-      if (billError) throw billError;
+      // Merging overwrites the matched bill with the reviewed values and replaces its items.
+      // The previous row and items are kept so a failed merge can restore them.
+      let bill: { id: string };
+      if (resolution?.action === 'merge') {
+        const previousBill = await unwrap<Record<string, unknown>>(
+          db.from('bills').select('*').eq('id', resolution.billId).single()
+        );
+        const previousItems = await unwrap<Record<string, unknown>[]>(
+          db.from('bill_items').select('*').eq('bill_id', resolution.billId)
+        );
+
+        bill = await saga.run(
+          `Update bill ${previousBill.bill_number ?? resolution.billId}`,
+          'bills',
+          () => unwrap<{ id: string }>(db.from('bills').update(dbPayload).eq('id', resolution.billId).select('id').single()),
+          () => unwrap(db.from('bills').update(previousBill).eq('id', resolution.billId))
+        );
+        await saga.run(
+          `Remove ${previousItems.length} previous bill item(s)`,
+          'bill_items',
+          () => unwrap(db.from('bill_items').delete().eq('bill_id', bill.id)),
+          async () => {
+            if (previousItems.length > 0) await unwrap(db.from('bill_items').insert(previousItems));
+          }
+        );
+      } else {
+        const allocated = await saga.run(
+          `Create bill in series ${billSeries.pattern.replace('{fy}', financialYear(billDate))}`,
+          'bills',
+          () => BillNumbering.allocate<{ id: string }>(billSeries, billDate, billNumber =>
+            db.from('bills').insert({ bill_number: billNumber, ...dbPayload }).select('id').single()
+          ),
+          created => unwrap(db.from('bills').delete().eq('id', created.data.id))
+        );
+        bill = allocated.data;
+      }
       
       // 4. Insert bill items - EXACTLY like BillGenerator
-      const itemPayloads = processedItems.map(item => ({
+      const itemPayloads = processedItems.map((item, idx) => ({
         bill_id: bill.id,
         product_id: item.productId || null,
         product_name: item.productName,
         quantity: item.quantity,
-        rate: item.price,
-        amount: item.total
+        rate: toBase(item.price),
+        amount: toBase(item.total),
+        original_rate: item.price,
+        original_amount: item.total,
+        hsn_sac: item.hsnSac || null,
+        taxable_value: toBase(gstBreakdown.lines[idx].taxableValue),
+        gst_rate: gstBreakdown.lines[idx].gstRate,
+        cgst_amount: toBase(gstBreakdown.lines[idx].cgst),
+        sgst_amount: toBase(gstBreakdown.lines[idx].sgst),
+        igst_amount: toBase(gstBreakdown.lines[idx].igst)
       }));
       
-      const { error: itemsError } = await supabase
-        .from('bill_items')
-        .insert(itemPayloads);
-      
-      if (itemsError) throw itemsError;
+      // One insert statement, so the items are written all together or not at all
+      await saga.run(
+        `Add ${itemPayloads.length} bill item(s)`,
+        'bill_items',
+        () => unwrap<{ id: string }[]>(db.from('bill_items').insert(itemPayloads).select('id')),
+        inserted => unwrap(db.from('bill_items').delete().in('id', inserted.map(row => row.id)))
+      );
+
+      // 5. Purchases add the received quantities to stock, with one ledger row per product
+      if (addToStock) {
+        const alreadyReceived = new Map<string, number>();
+        if (resolution?.action === 'merge') {
+          const previousMovements = await unwrap<Array<{ product_id: string; quantity: number }>>(
+            db.from('stock_movements').select('product_id, quantity').eq('bill_id', bill.id)
+          );
+          previousMovements.forEach(m => alreadyReceived.set(m.product_id, (alreadyReceived.get(m.product_id) ?? 0) + m.quantity));
+        }
+
+        const productIds = [...new Set([...processedItems.map(item => item.productId), ...alreadyReceived.keys()])].filter(Boolean);
+        const levels = await unwrap<StockLevel[]>(
+          db.from('products').select('id, name, stock, cost_price, reorder_threshold, status').in('id', productIds)
+        );
+        const changes = StockAdjuster.plan(
+          receivedLinesOf(processedItems).filter(line => line.productId),
+          levels,
+          costMethod,
+          alreadyReceived
+        );
+
+        for (const change of changes) {
+          const level = levels.find(l => l.id === change.productId);
+          await saga.run(
+            `Stock of "${change.productName}" ${change.stockBefore} → ${change.stockAfter}`,
+            'products',
+            () => unwrap(db.from('products').update({
+              stock: change.stockAfter,
+              cost_price: change.costAfter,
+              status: StockAdjuster.statusFor(change.stockAfter, level?.reorder_threshold)
+            }).eq('id', change.productId)),
+            () => unwrap(db.from('products').update({
+              stock: change.stockBefore,
+              cost_price: change.costBefore,
+              ...(level?.status ? { status: level.status } : {})
+            }).eq('id', change.productId))
+          );
+        }
+
+        if (changes.length > 0) {
+          await saga.run(
+            `Record ${changes.length} stock movement(s)`,
+            'stock_movements',
+            () => unwrap<{ id: string }[]>(db
+              .from('stock_movements')
+              .insert(changes.map(change => StockAdjuster.movementRow(change, bill.id, alreadyReceived.size > 0)))
+              .select('id')),
+            inserted => unwrap(db.from('stock_movements').delete().in('id', inserted.map(row => row.id)))
+          );
+        }
+      }
+
+      // 6. Purchases and expenses are also posted to the expenses ledger
+      const partyName = customers.find(c => c.id === finalCustomerId)?.name || newCustomerName;
+      const previousExpense = resolution?.action === 'merge'
+        ? await unwrap<Record<string, unknown> | null>(db.from('expenses').select('*').eq('bill_id', bill.id).maybeSingle())
+        : null;
+      if (direction !== 'sale') {
+        const expensePayload = {
+          bill_id: bill.id,
+          category: expenseCategory,
+          amount: toBase(grandTotal),
+          tax_amount: toBase(taxAmount),
+          currency,
+          original_amount: grandTotal,
+          expense_date: billDate,
+          description: `${partyName}${supplierInvoiceNumber ? ` invoice ${supplierInvoiceNumber}` : ''}`,
+          vendor_name: partyName,
+          vendor_gstin: duplicateCheck.supplierGstin || null,
+          invoice_number: supplierInvoiceNumber || null,
+          payment_status: paymentStatus,
+          direction
+        };
+        if (previousExpense) {
+          await saga.run(
+            `Update ${expenseCategory} expense`,
+            'expenses',
+            () => unwrap(db.from('expenses').update(expensePayload).eq('id', previousExpense.id)),
+            () => unwrap(db.from('expenses').update(previousExpense).eq('id', previousExpense.id))
+          );
+        } else {
+          await saga.run(
+            `Post ${expenseCategory} expense of ₹${toBase(grandTotal).toFixed(2)}`,
+            'expenses',
+            () => unwrap<{ id: string }>(db.from('expenses').insert(expensePayload).select('id').single()),
+            created => unwrap(db.from('expenses').delete().eq('id', created.id))
+          );
+        }
+      } else if (previousExpense) {
+        // A merged bill that is now a sale no longer belongs in expenses
+        await saga.run(
+          'Remove previous expense entry',
+          'expenses',
+          () => unwrap(db.from('expenses').delete().eq('id', previousExpense.id)),
+          () => unwrap(db.from('expenses').insert(previousExpense))
+        );
+      }
+
+      rememberProductLinks(processedItems);
+      learnSupplierProfile(processedItems, recordExtractionReview(processedItems));
       
       // Success!
       onSuccess();
       onClose();
     } catch (error: any) {
       console.error('Import error:', error);
+      await saga.rollback();
+      const report = saga.report(error);
+      setImportReport(report.steps.length > 0 ? report : null);
       setErrors([error.message || 'Failed to import invoice to database']);
     } finally {
       setIsImporting(false);
@@ -383,7 +1030,22 @@ export const InvoiceImport: React.FC<InvoiceImportProps> = ({ invoice, onClose,
   }
 
   return (
-    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center gap-4 z-50 p-4">
+      {/* Original image, side by side with the form on wide screens */}
+      {invoice.image && showImage && (
+        <div className="hidden lg:flex flex-col bg-white rounded-2xl shadow-2xl w-[45vw] max-w-3xl h-[95vh] overflow-hidden flex-shrink-0">
+          <InvoiceImageViewer
+            image={invoice.image}
+            fileName={invoice.fileName}
+            detections={invoice.raw?.detections || []}
+            highlights={highlights}
+            highlightLabel={viewerFields.find(field => field.path === activeField)?.label}
+            fields={viewerFields}
+            onAssign={assignRegion}
+            onClose={() => setShowImage(false)}
+          />
+        </div>
+      )}
       <div className="bg-white rounded-2xl shadow-2xl max-w-5xl w-full max-h-[95vh] flex flex-col overflow-hidden">
         {/* Header */}
         <div className="bg-gradient-to-r from-blue-600 to-indigo-600 px-6 py-4 flex items-center justify-between rounded-t-2xl flex-shrink-0">
@@ -391,12 +1053,23 @@ export const InvoiceImport: React.FC<InvoiceImportProps> = ({ invoice, onClose,
             <Upload className="w-6 h-6 text-white" />
             <h2 className="text-xl font-bold text-white">Import Invoice to Database</h2>
           </div>
-          <button
-            onClick={onClose}
-            className="text-white/80 hover:text-white transition"
-          >
-            <X className="w-6 h-6" />
-          </button>
+          <div className="flex items-center gap-3">
+            {invoice.image && !showImage && (
+              <button
+                onClick={() => setShowImage(true)}
+                className="hidden lg:flex items-center gap-1 text-sm text-white/80 hover:text-white transition"
+              >
+                <ImageIcon className="w-4 h-4" />
+                Show image
+              </button>
+            )}
+            <button
+              onClick={onClose}
+              className="text-white/80 hover:text-white transition"
+            >
+              <X className="w-6 h-6" />
+            </button>
+          </div>
         </div>
 
         {/* Errors */}
@@ -418,49 +1091,532 @@ export const InvoiceImport: React.FC<InvoiceImportProps> = ({ invoice, onClose,
 
         {/* Content - Scrollable */}
         <div className="flex-1 overflow-y-auto p-6 space-y-6">
+          {/* What the failed import left behind */}
+          {importReport && (
+            <div className={`p-4 rounded-lg border ${importReport.steps.some(step => step.status === 'rollback-failed') ? 'bg-red-50 border-red-300' : 'bg-gray-50 border-gray-200'}`}>
+              <h3 className="text-sm font-semibold text-gray-900 mb-1">Import report</h3>
+              <p className="text-xs text-gray-600 mb-3">
+                {importReport.steps.some(step => step.status === 'rollback-failed')
+                  ? 'The import failed and some changes could not be undone. Remove the records marked below before retrying.'
+                  : 'The import failed and every change was undone. Nothing from this attempt was saved.'}
+              </p>
+              <ul className="space-y-1">
+                {importReport.steps.map((step, idx) => (
+                  <li key={idx} className="flex items-start gap-2 text-xs">
+                    {step.status === 'rolled-back' && <RotateCcw className="w-3.5 h-3.5 text-gray-500 flex-shrink-0" />}
+                    {step.status === 'failed' && <XCircle className="w-3.5 h-3.5 text-red-600 flex-shrink-0" />}
+                    {step.status === 'rollback-failed' && <AlertTriangle className="w-3.5 h-3.5 text-red-600 flex-shrink-0" />}
+                    {step.status === 'done' && <CheckCircle className="w-3.5 h-3.5 text-green-600 flex-shrink-0" />}
+                    <span className="text-gray-900">{step.label}</span>
+                    <span className="text-gray-500">
+                      {step.status === 'rolled-back' && '· undone'}
+                      {step.status === 'failed' && `· failed${step.detail ? `: ${step.detail}` : ''}`}
+                      {step.status === 'rollback-failed' && `· still saved in ${step.table}${step.detail ? ` (${step.detail})` : ''}`}
+                      {step.status === 'done' && '· saved'}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {/* Signed e-invoice QR */}
+          {invoice.eInvoice && (
+            <div className={`p-4 rounded-lg border ${invoice.eInvoice.mismatches.length > 0 ? 'bg-red-50 border-red-300' : 'bg-green-50 border-green-200'}`}>
+              <div className="flex items-center gap-2 mb-1">
+                <QrCode className={`w-4 h-4 ${invoice.eInvoice.mismatches.length > 0 ? 'text-red-600' : 'text-green-600'}`} />
+                <h3 className={`text-sm font-semibold ${invoice.eInvoice.mismatches.length > 0 ? 'text-red-900' : 'text-green-900'}`}>
+                  {invoice.eInvoice.mismatches.length > 0
+                    ? 'The e-invoice QR code does not match the printed invoice'
+                    : 'E-invoice QR code matches the printed invoice'}
+                </h3>
+              </div>
+              <p className="text-xs text-gray-700 break-all">
+                IRN {invoice.eInvoice.payload.irn || 'not given'}
+                {invoice.eInvoice.payload.irnDate && ` · registered ${invoice.eInvoice.payload.irnDate}`}
+                {invoice.eInvoice.payload.itemCount !== undefined && ` · ${invoice.eInvoice.payload.itemCount} line item(s)`}
+                {invoice.eInvoice.payload.mainHsnCode && ` · main HSN ${invoice.eInvoice.payload.mainHsnCode}`}
+              </p>
+              {invoice.eInvoice.mismatches.length > 0 && (
+                <>
+                  <p className="mt-2 text-xs text-red-800">
+                    The QR values were used. A difference means the printed copy was altered or misread – check it against the original.
+                  </p>
+                  <ul className="mt-1 space-y-0.5 text-xs text-red-800">
+                    {invoice.eInvoice.mismatches.map(mismatch => (
+                      <li key={mismatch.field}>
+                        {mismatch.label}: QR <span className="font-mono">{mismatch.qr}</span> · printed <span className="font-mono">{mismatch.extracted}</span>
+                      </li>
+                    ))}
+                  </ul>
+                </>
+              )}
+            </div>
+          )}
+
+          {/* Possible duplicates */}
+          {duplicateCandidates.length > 0 && (
+            <div className="p-4 rounded-lg border bg-orange-50 border-orange-300">
+              <div className="flex items-center gap-2 mb-1">
+                <Copy className="w-4 h-4 text-orange-600" />
+                <h3 className="text-sm font-semibold text-orange-900">
+                  This invoice may already be imported
+                </h3>
+              </div>
+              <p className="text-xs text-orange-800 mb-3">
+                Nothing has been saved yet. Skip this invoice, merge it into an existing bill, or import it as a new bill.
+              </p>
+              <div className="space-y-2">
+                {duplicateCandidates.map(candidate => (
+                  <div key={candidate.billId} className="flex items-start justify-between gap-3 bg-white rounded border border-orange-200 p-3">
+                    <div className="text-xs text-gray-700">
+                      <div className="font-medium text-gray-900">
+                        Bill {candidate.billNumber} · {candidate.billDate} · ₹{candidate.totalAmount.toFixed(2)}
+                        <span className={`ml-2 px-1.5 py-0.5 rounded ${candidate.exactMatch ? 'bg-red-100 text-red-700' : 'bg-orange-100 text-orange-700'}`}>
+                          {candidate.exactMatch ? 'Exact match' : `${Math.round(candidate.score * 100)}% similar`}
+                        </span>
+                      </div>
+                      <ul className="list-disc list-inside mt-1">
+                        {candidate.reasons.map((reason, idx) => (
+                          <li key={idx}>{reason}</li>
+                        ))}
+                      </ul>
+                    </div>
+                    <button
+                      onClick={() => handleImport({ action: 'merge', billId: candidate.billId })}
+                      disabled={isImporting}
+                      className="px-3 py-1.5 text-xs font-medium text-orange-800 bg-orange-100 hover:bg-orange-200 rounded transition whitespace-nowrap disabled:opacity-50"
+                    >
+                      Merge into this bill
+                    </button>
+                  </div>
+                ))}
+              </div>
+              <div className="flex justify-end gap-2 mt-3">
+                <button
+                  onClick={onClose}
+                  disabled={isImporting}
+                  className="px-3 py-1.5 text-xs font-medium text-gray-700 bg-white border border-gray-300 hover:bg-gray-100 rounded transition disabled:opacity-50"
+                >
+                  Skip this invoice
+                </button>
+                <button
+                  onClick={() => handleImport({ action: 'force' })}
+                  disabled={isImporting}
+                  className="px-3 py-1.5 text-xs font-medium text-white bg-orange-600 hover:bg-orange-700 rounded transition disabled:opacity-50"
+                >
+                  Import as new bill anyway
+                </button>
+              </div>
+            </div>
+          )}
+
+          {/* Extraction field errors */}
+          {invoice.fieldErrors && invoice.fieldErrors.length > 0 && (
+            <div className="p-4 rounded-lg border bg-amber-50 border-amber-200">
+              <div className="flex items-center gap-2 mb-2">
+                <AlertTriangle className="w-4 h-4 text-amber-600" />
+                <h3 className="text-sm font-semibold text-amber-900">
+                  {invoice.fieldErrors.length} extracted field(s) failed validation
+                </h3>
+              </div>
+              <ul className="space-y-1 text-xs text-amber-800">
+                {invoice.fieldErrors.map((fieldError, idx) => (
+                  <li key={idx}>
+                    <span className="font-mono font-medium">{fieldError.path === '$' ? 'invoice' : fieldError.path}</span>: {fieldError.message}
+                    {fieldError.value !== undefined && (
+                      <span className="text-amber-600"> (got {JSON.stringify(fieldError.value)})</span>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {/* Low-confidence and imputed fields */}
+          {fieldsToReview.length > 0 && (
+            <div className="p-4 rounded-lg border bg-white border-gray-200">
+              <h3 className="text-sm font-semibold text-gray-900 mb-2">Check these extracted fields</h3>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-2 text-xs">
+                {fieldsToReview.map(field => {
+                  const fieldProvenance = provenance[field];
+                  const value = invoice[field as keyof InvoiceData];
+                  return (
+                    <div key={field} className={`px-3 py-2 rounded border ${reviewClass(fieldProvenance)}`}>
+                      <div className="flex justify-between gap-2">
+                        <span className="font-medium text-gray-800">{REVIEW_FIELD_LABELS[field]}</span>
+                        <span className="text-gray-500">{describeProvenance(fieldProvenance)}</span>
+                      </div>
+                      <div className="text-gray-700 truncate">{value === undefined || value === '' ? '—' : String(value)}</div>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+
+          {/* Supplier GSTIN */}
+          <div className={`p-4 rounded-lg border ${gstinCheck.isValid ? 'bg-green-50 border-green-200' : 'bg-amber-50 border-amber-200'}`}>
+            <div className="flex flex-col md:flex-row md:items-end gap-3">
+              <div className="flex-1">
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Supplier GSTIN
+                </label>
+                <input
+                  type="text"
+                  value={supplierGstin}
+                  onChange={(e) => setSupplierGstin(e.target.value.toUpperCase())}
+                  onFocus={() => setActiveField('gstNumber')}
+                  className={`w-full px-3 py-2 border rounded-lg font-mono tracking-wider focus:ring-2 focus:ring-blue-500 focus:border-transparent ${reviewClass(provenance.gstNumber)}`}
+                  placeholder="15-character GSTIN"
+                  maxLength={20}
+                />
+              </div>
+              <div className="flex items-center gap-2 text-sm md:pb-2">
+                {gstinCheck.isValid ? (
+                  <>
+                    <ShieldCheck className="w-5 h-5 text-green-600" />
+                    <span className="text-green-800 font-medium">Valid GSTIN</span>
+                  </>
+                ) : (
+                  <>
+                    <ShieldAlert className="w-5 h-5 text-amber-600" />
+                    <span className="text-amber-800 font-medium">GSTIN needs review</span>
+                  </>
+                )}
+              </div>
+            </div>
+            {gstinCheck.structureValid && (
+              <div className="mt-3 grid grid-cols-1 md:grid-cols-3 gap-2 text-xs text-gray-700">
+                <div><span className="font-medium">State:</span> {gstinCheck.stateName || 'Unknown'} ({gstinCheck.stateCode})</div>
+                <div><span className="font-medium">PAN:</span> <span className="font-mono">{gstinCheck.pan}</span></div>
+                <div><span className="font-medium">Holder:</span> {gstinCheck.panHolderType || 'Unknown'} · Entity {gstinCheck.entityNumber}</div>
+              </div>
+            )}
+            {gstinCheck.errors.length > 0 && (
+              <ul className="mt-3 list-disc list-inside space-y-1 text-xs text-amber-800">
+                {gstinCheck.errors.map((error, idx) => (
+                  <li key={idx}>{error}</li>
+                ))}
+              </ul>
+            )}
+            {gstinCheck.suggestions.length > 0 && (
+              <div className="mt-3 flex flex-wrap items-center gap-2 text-xs">
+                <span className="text-gray-700 font-medium">Possible OCR fixes:</span>
+                {gstinCheck.suggestions.map(suggestion => (
+                  <button
+                    key={suggestion.gstin}
+                    onClick={() => setSupplierGstin(suggestion.gstin)}
+                    className="px-2 py-1 rounded border border-amber-300 bg-white hover:bg-amber-100 font-mono transition"
+                    title={suggestion.changes.map(c => `Position ${c.position}: ${c.from} → ${c.to}`).join(', ')}
+                  >
+                    {suggestion.gstin}
+                    {suggestion.stateName && <span className="ml-1 font-sans text-gray-500">({suggestion.stateName})</span>}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* Invoice direction and payment */}
+          <div className="p-4 rounded-lg border border-gray-200">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Invoice Type</label>
+                <select
+                  value={direction}
+                  onChange={(e) => changeDirection(e.target.value as InvoiceDirection)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  <option value="sale">Sale (we issued it)</option>
+                  <option value="purchase">Purchase (supplier bill for goods)</option>
+                  <option value="expense">Expense (services, utilities, overheads)</option>
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Payment Status</label>
+                <select
+                  value={paymentStatus}
+                  onChange={(e) => setPaymentStatus(e.target.value as PaymentStatus)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  <option value="Paid">Paid</option>
+                  <option value="Unpaid">Unpaid</option>
+                  <option value="Partially Paid">Partially paid</option>
+                </select>
+              </div>
+              {direction !== 'sale' && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Expense Category</label>
+                  <select
+                    value={expenseCategory}
+                    onChange={(e) => setExpenseCategory(e.target.value as ExpenseCategory)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  >
+                    {EXPENSE_CATEGORIES.map(category => (
+                      <option key={category} value={category}>{category}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
+            </div>
+            <p className={`mt-2 text-xs ${detectedDirection.assumed ? 'text-amber-700' : 'text-gray-600'}`}>
+              Detected: {detectedDirection.direction} – {detectedDirection.reasons.join('; ')}
+              {direction !== 'sale' && ' · Posted to expenses as well as bills.'}
+            </p>
+            {detectedDirection.assumed && (
+              <div className="mt-2 flex items-center gap-2">
+                <input
+                  type="text"
+                  value={businessGstinInput}
+                  onChange={(e) => setBusinessGstinInput(e.target.value.toUpperCase())}
+                  className="flex-1 px-3 py-1.5 border border-gray-300 rounded-lg text-sm font-mono"
+                  placeholder="Your GSTIN(s), comma separated"
+                />
+                <button
+                  onClick={() => {
+                    saveBusinessGstins(businessGstinInput.split(','));
+                    const saved = getBusinessGstins();
+                    setBusinessGstins(saved);
+                    changeDirection(InvoiceDirectionDetector.detect(directionInput, saved).direction);
+                  }}
+                  className="px-3 py-1.5 text-sm font-medium text-blue-700 hover:bg-blue-50 rounded-lg transition"
+                >
+                  Save
+                </button>
+              </div>
+            )}
+          </div>
+
+          {/* Currency and exchange rate */}
+          <div className={`p-4 rounded-lg border ${isForeign && !exchangeRate ? 'bg-amber-50 border-amber-200' : 'border-gray-200'}`}>
+            <div className="flex flex-col md:flex-row md:items-end gap-3">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Invoice Currency</label>
+                <select
+                  value={currency}
+                  onChange={(e) => setCurrency(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  {!CURRENCIES.some(spec => spec.code === currency) && <option value={currency}>{currency}</option>}
+                  {CURRENCIES.map(spec => (
+                    <option key={spec.code} value={spec.code}>{spec.code} – {spec.name}</option>
+                  ))}
+                </select>
+              </div>
+              {isForeign && (
+                <div className="flex-1">
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    {BASE_CURRENCY} per {currency} on {billDate || 'the bill date'}
+                  </label>
+                  <div className="flex items-center gap-2">
+                    <input
+                      type="number"
+                      value={rateInput}
+                      onChange={(e) => setRateInput(e.target.value)}
+                      className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                      placeholder={exchangeRate ? String(exchangeRate.rate) : 'Exchange rate'}
+                      step="0.0001"
+                      min="0"
+                    />
+                    <button
+                      onClick={() => {
+                        try {
+                          ExchangeRateTable.save({ currency, date: billDate, rate: parseFloat(rateInput) });
+                          setRateInput('');
+                        } catch (error) {
+                          setErrors([(error as Error).message]);
+                        }
+                      }}
+                      disabled={!rateInput || !billDate}
+                      className="px-3 py-2 text-sm font-medium text-blue-700 hover:bg-blue-50 rounded-lg transition disabled:opacity-50"
+                    >
+                      Save rate
+                    </button>
+                  </div>
+                </div>
+              )}
+            </div>
+            {isForeign && (
+              <p className={`mt-2 text-xs ${exchangeRate ? 'text-gray-600' : 'text-amber-800'}`}>
+                {exchangeRate
+                  ? `Using ${exchangeRate.rate} from the rate table (dated ${exchangeRate.date}). Amounts are stored in ${BASE_CURRENCY} together with the original ${currency} amounts.`
+                  : `No ${currency} rate on or before ${billDate}. Enter the rate to add it to the local rate table.`}
+              </p>
+            )}
+          </div>
+
           {/* Customer & Date */}
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-2">
-                Select Existing Customer
+                Select Existing {partyLabel}
               </label>
               <select
                 value={selectedCustomer}
                 onChange={(e) => setSelectedCustomer(e.target.value)}
                 className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
               >
-                <option value="">-- Select Customer --</option>
+                <option value="">-- Select {partyLabel} --</option>
                 {customers.map(customer => (
                   <option key={customer.id} value={customer.id}>
-                    {customer.name}
+                    {customer.name}{customer.gstin ? ` (${customer.gstin})` : ''}
                   </option>
                 ))}
               </select>
+              {selectedCustomer ? (
+                partyMatches.some(match => match.partyId === selectedCustomer) && (
+                  <div className="mt-1 flex items-center gap-1 text-xs text-green-700">
+                    <Link2 className="w-3 h-3 flex-shrink-0" />
+                    {partyMatches.find(match => match.partyId === selectedCustomer)!.reasons.join(' · ')}
+                  </div>
+                )
+              ) : partyMatches.length > 0 && (
+                <div className="mt-1 flex flex-wrap items-center gap-1 text-xs">
+                  <span className="text-gray-600">Possible matches:</span>
+                  {partyMatches.map(match => (
+                    <button
+                      key={match.partyId}
+                      onClick={() => setSelectedCustomer(match.partyId)}
+                      className="px-1.5 py-0.5 border border-blue-200 bg-blue-50 text-blue-800 rounded hover:bg-blue-100"
+                      title={match.reasons.join(' · ')}
+                    >
+                      {match.partyName} · {Math.round(match.score * 100)}%
+                    </button>
+                  ))}
+                </div>
+              )}
             </div>
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-2">
-                Or Enter New Customer Name
+                Or Enter New {partyLabel} Name
               </label>
               <input
                 type="text"
                 value={newCustomerName}
                 onChange={(e) => setNewCustomerName(e.target.value)}
+                onFocus={() => setActiveField('companyName')}
                 disabled={!!selectedCustomer}
                 className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:bg-gray-100"
-                placeholder="New customer name"
+                placeholder={`New ${partyLabel.toLowerCase()} name`}
               />
             </div>
-            <div className="md:col-span-2">
+            <div className="md:col-span-2 grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Bill Date <span className="text-red-500">*</span>
+                </label>
+                <input
+                  type="date"
+                  value={billDate}
+                  onChange={(e) => setBillDate(e.target.value)}
+                  onFocus={() => setActiveField('date')}
+                  className={`w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent ${dateNeedsReview ? 'border-amber-400 bg-amber-50' : 'border-gray-300'}`}
+                />
+                <p className={`mt-1 text-xs ${dateNeedsReview ? 'text-amber-700' : 'text-gray-500'}`}>
+                  {billDate && `FY ${financialYear(billDate)} · `}
+                  {!extractedDate
+                    ? 'No date found on the invoice; defaulted to today'
+                    : `Read "${extractedDate.original}"${dateNeedsReview ? ` – please check: ${extractedDate.warnings.join('; ') || 'uncertain reading'}` : ''}`}
+                </p>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Supply Type
+                </label>
+                <select
+                  value={supplyTypeOverride}
+                  onChange={(e) => setSupplyTypeOverride(e.target.value as SupplyType | '')}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  <option value="">
+                    Auto: {gstBreakdown.supplyType === 'inter' ? 'Inter-state (IGST)' : 'Intra-state (CGST + SGST)'}
+                    {gstBreakdown.supplyTypeAssumed ? ' – assumed' : ''}
+                  </option>
+                  <option value="intra">Intra-state (CGST + SGST)</option>
+                  <option value="inter">Inter-state (IGST)</option>
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Discount ({symbol.trim()})
+                </label>
+                <input
+                  type="number"
+                  value={discountAmount}
+                  onChange={(e) => setDiscountAmount(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  step="0.01"
+                  min="0"
+                />
+              </div>
+            </div>
+            <div>
               <label className="block text-sm font-medium text-gray-700 mb-2">
-                Bill Date <span className="text-red-500">*</span>
+                {direction === 'sale' ? 'Original Invoice No.' : 'Supplier Invoice No.'}
               </label>
               <input
-                type="date"
-                value={billDate}
-                onChange={(e) => setBillDate(e.target.value)}
-                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                type="text"
+                value={supplierInvoiceNumber}
+                onChange={(e) => setSupplierInvoiceNumber(e.target.value)}
+                onFocus={() => setActiveField('invoiceNumber')}
+                className={`w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent ${reviewClass(provenance.invoiceNumber)}`}
+                placeholder="As printed on the invoice (reference only)"
               />
             </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Bill Number
+              </label>
+              {seriesDraft === null ? (
+                <div className="flex items-center gap-2">
+                  <div className="flex-1 px-3 py-2 border border-gray-200 rounded-lg bg-gray-50 font-mono text-sm text-gray-900">
+                    {numberingPreview?.next || billSeries.pattern}
+                  </div>
+                  <button
+                    onClick={() => setSeriesDraft(billSeries.pattern)}
+                    className="px-3 py-2 text-sm font-medium text-blue-700 hover:bg-blue-50 rounded-lg transition"
+                  >
+                    Edit series
+                  </button>
+                </div>
+              ) : (
+                <div className="flex items-center gap-2">
+                  <input
+                    type="text"
+                    value={seriesDraft}
+                    onChange={(e) => setSeriesDraft(e.target.value)}
+                    className="flex-1 px-3 py-2 border border-gray-300 rounded-lg font-mono text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    placeholder="FY{fy}/{seq}"
+                  />
+                  <button
+                    onClick={() => {
+                      try {
+                        BillNumbering.saveSeries({ ...billSeries, pattern: seriesDraft.trim() });
+                        setBillSeries(BillNumbering.getSeries(direction));
+                        setSeriesDraft(null);
+                      } catch (error) {
+                        setErrors([(error as Error).message]);
+                      }
+                    }}
+                    className="px-3 py-2 text-sm font-medium text-blue-700 hover:bg-blue-50 rounded-lg transition"
+                  >
+                    Save
+                  </button>
+                </div>
+              )}
+              <p className="mt-1 text-xs text-gray-500">
+                {seriesDraft === null
+                  ? `Assigned on import · ${numberingPreview ? `${numberingPreview.issued} issued in FY ${numberingPreview.financialYear}` : 'next free number in the series'}`
+                  : '{fy} is the financial year (e.g. 26-27), {seq} the running number'}
+              </p>
+              {numberingPreview && numberingPreview.gapCount > 0 && (
+                <p className="mt-1 text-xs text-amber-700" title={numberingPreview.gaps.join(', ')}>
+                  {numberingPreview.gapCount} number(s) missing from the series: {numberingPreview.gaps.slice(0, 3).join(', ')}
+                  {numberingPreview.gapCount > 3 ? '…' : ''}
+                </p>
+              )}
+            </div>
           </div>
 
           {/* Add Item Form */}
@@ -520,7 +1676,7 @@ export const InvoiceImport: React.FC<InvoiceImportProps> = ({ invoice, onClose,
             <div className="grid grid-cols-1 md:grid-cols-5 gap-3">
               <div className="md:col-span-2">
                 <label className="block text-xs font-medium text-gray-700 mb-1">
-                  Price (₹)
+                  Price ({symbol.trim()})
                 </label>
                 <input
                   type="number"
@@ -546,15 +1702,28 @@ export const InvoiceImport: React.FC<InvoiceImportProps> = ({ invoice, onClose,
           {/* Items Table */}
           {billItems.length > 0 && (
             <div className="space-y-3">
-              <h3 className="text-sm font-semibold text-gray-900">Bill Items ({billItems.length})</h3>
+              <div className="flex items-center justify-between">
+                <h3 className="text-sm font-semibold text-gray-900">Bill Items ({billItems.length})</h3>
+                {unresolvedItems.length > 0 && (
+                  <div className="flex items-center gap-3 text-xs">
+                    <span className="text-amber-700">{unresolvedItems.length} item(s) not linked to the catalog</span>
+                    <button onClick={confirmNewProducts} className="text-blue-600 hover:text-blue-800 underline">
+                      Create all as new products
+                    </button>
+                  </div>
+                )}
+              </div>
               <div className="overflow-x-auto border border-gray-200 rounded-lg">
                 <table className="min-w-full divide-y divide-gray-200">
                   <thead className="bg-gray-50">
                     <tr>
                       <th className="px-4 py-3 text-left text-xs font-medium text-gray-700 uppercase">Product</th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-700 uppercase">HSN/SAC</th>
                       <th className="px-4 py-3 text-right text-xs font-medium text-gray-700 uppercase">Quantity</th>
-                      <th className="px-4 py-3 text-right text-xs font-medium text-gray-700 uppercase">Price (₹)</th>
-                      <th className="px-4 py-3 text-right text-xs font-medium text-gray-700 uppercase">Total (₹)</th>
+                      <th className="px-4 py-3 text-right text-xs font-medium text-gray-700 uppercase">Price ({symbol.trim()})</th>
+                      <th className="px-4 py-3 text-right text-xs font-medium text-gray-700 uppercase">GST %</th>
+                      <th className="px-4 py-3 text-right text-xs font-medium text-gray-700 uppercase">Taxable ({symbol.trim()})</th>
+                      <th className="px-4 py-3 text-right text-xs font-medium text-gray-700 uppercase">Tax ({symbol.trim()})</th>
                       <th className="px-4 py-3 text-center text-xs font-medium text-gray-700 uppercase">Action</th>
                     </tr>
                   </thead>
@@ -566,7 +1735,53 @@ export const InvoiceImport: React.FC<InvoiceImportProps> = ({ invoice, onClose,
                             type="text"
                             value={item.productName}
                             onChange={(e) => updateItem(idx, 'productName', e.target.value)}
-                            className="w-full px-2 py-1 border border-gray-300 rounded text-sm"
+                            onFocus={() => setActiveField(`billItems[${idx}].productName`)}
+                            className={`w-full px-2 py-1 border rounded text-sm ${reviewClass(provenance[`items[${item.sourceIndex}].name`])}`}
+                            title={provenance[`items[${item.sourceIndex}].name`] ? describeProvenance(provenance[`items[${item.sourceIndex}].name`]) : undefined}
+                          />
+                          {item.productId ? (
+                            <div className="mt-1 flex items-center gap-2 text-xs text-green-700">
+                              <Link2 className="w-3 h-3 flex-shrink-0" />
+                              <span className="truncate">{products.find(p => p.id === item.productId)?.name || 'Catalog product'}</span>
+                              <button onClick={() => linkProduct(idx, '')} className="text-gray-500 hover:text-gray-700 underline">
+                                change
+                              </button>
+                            </div>
+                          ) : (
+                            <div className="mt-1 space-y-1">
+                              {(item.suggestions || []).length > 0 && (
+                                <div className="flex flex-wrap gap-1">
+                                  {item.suggestions!.map(match => (
+                                    <button
+                                      key={match.productId}
+                                      onClick={() => linkProduct(idx, match.productId)}
+                                      className="px-1.5 py-0.5 text-xs border border-blue-200 bg-blue-50 text-blue-800 rounded hover:bg-blue-100"
+                                      title={match.reasons.join(' · ')}
+                                    >
+                                      {match.productName} · {Math.round(match.score * 100)}%
+                                    </button>
+                                  ))}
+                                </div>
+                              )}
+                              <label className="flex items-center gap-1 text-xs text-gray-600">
+                                <input
+                                  type="checkbox"
+                                  checked={!!item.createProduct}
+                                  onChange={(e) => updateItem(idx, 'createProduct', e.target.checked)}
+                                  className="w-3 h-3"
+                                />
+                                Create as new product
+                              </label>
+                            </div>
+                          )}
+                        </td>
+                        <td className="px-4 py-3">
+                          <input
+                            type="text"
+                            value={item.hsnSac || ''}
+                            onChange={(e) => updateItem(idx, 'hsnSac', e.target.value)}
+                            className="w-24 px-2 py-1 border border-gray-300 rounded text-sm font-mono"
+                            placeholder="—"
                           />
                         </td>
                         <td className="px-4 py-3">
@@ -574,7 +1789,9 @@ export const InvoiceImport: React.FC<InvoiceImportProps> = ({ invoice, onClose,
                             type="number"
                             value={item.quantity}
                             onChange={(e) => updateItem(idx, 'quantity', parseFloat(e.target.value) || 0)}
-                            className="w-24 px-2 py-1 border border-gray-300 rounded text-sm text-right ml-auto block"
+                            onFocus={() => setActiveField(`billItems[${idx}].quantity`)}
+                            className={`w-24 px-2 py-1 border rounded text-sm text-right ml-auto block ${reviewClass(provenance[`items[${item.sourceIndex}].quantity`])}`}
+                            title={provenance[`items[${item.sourceIndex}].quantity`] ? describeProvenance(provenance[`items[${item.sourceIndex}].quantity`]) : undefined}
                             step="0.01"
                             min="0"
                           />
@@ -584,13 +1801,31 @@ export const InvoiceImport: React.FC<InvoiceImportProps> = ({ invoice, onClose,
                             type="number"
                             value={item.price}
                             onChange={(e) => updateItem(idx, 'price', parseFloat(e.target.value) || 0)}
-                            className="w-28 px-2 py-1 border border-gray-300 rounded text-sm text-right ml-auto block"
+                            onFocus={() => setActiveField(`billItems[${idx}].price`)}
+                            className={`w-28 px-2 py-1 border rounded text-sm text-right ml-auto block ${reviewClass(provenance[`items[${item.sourceIndex}].rate`])}`}
+                            title={provenance[`items[${item.sourceIndex}].rate`] ? describeProvenance(provenance[`items[${item.sourceIndex}].rate`]) : undefined}
                             step="0.01"
                             min="0"
                           />
                         </td>
+                        <td className="px-4 py-3">
+                          <select
+                            value={item.gstRate}
+                            onChange={(e) => updateItem(idx, 'gstRate', parseFloat(e.target.value))}
+                            className="w-20 px-2 py-1 border border-gray-300 rounded text-sm text-right ml-auto block"
+                          >
+                            {Array.from(new Set([...STANDARD_GST_RATES, item.gstRate])).sort((a, b) => a - b).map(rate => (
+                              <option key={rate} value={rate}>{rate}%</option>
+                            ))}
+                          </select>
+                        </td>
                         <td className="px-4 py-3 text-right font-medium">
-                          ₹{item.total.toFixed(2)}
+                          {symbol}{item.total.toFixed(2)}
+                        </td>
+                        <td className="px-4 py-3 text-right text-xs text-gray-700 whitespace-nowrap">
+                          {gstBreakdown.lines[idx]?.igst
+                            ? <>IGST {symbol}{gstBreakdown.lines[idx].igst.toFixed(2)}</>
+                            : <>C {symbol}{(gstBreakdown.lines[idx]?.cgst ?? 0).toFixed(2)} + S {symbol}{(gstBreakdown.lines[idx]?.sgst ?? 0).toFixed(2)}</>}
                         </td>
                         <td className="px-4 py-3 text-center">
                           <button
@@ -603,22 +1838,196 @@ export const InvoiceImport: React.FC<InvoiceImportProps> = ({ invoice, onClose,
                       </tr>
                     ))}
                   </tbody>
-                  <tfoot className="bg-gray-50">
+                  <tfoot className="bg-gray-50 text-sm">
+                    <tr>
+                      <td colSpan={6} className="px-4 py-2 text-right text-gray-700">Taxable value:</td>
+                      <td className="px-4 py-2 text-right font-medium">{symbol}{total.toFixed(2)}</td>
+                      <td colSpan={2}></td>
+                    </tr>
+                    {gstBreakdown.supplyType === 'inter' ? (
+                      <tr>
+                        <td colSpan={6} className="px-4 py-2 text-right text-gray-700">IGST:</td>
+                        <td className="px-4 py-2 text-right font-medium">{symbol}{gstBreakdown.totals.igst.toFixed(2)}</td>
+                        <td colSpan={2}></td>
+                      </tr>
+                    ) : (
+                      <>
+                        <tr>
+                          <td colSpan={6} className="px-4 py-2 text-right text-gray-700">CGST:</td>
+                          <td className="px-4 py-2 text-right font-medium">{symbol}{gstBreakdown.totals.cgst.toFixed(2)}</td>
+                          <td colSpan={2}></td>
+                        </tr>
+                        <tr>
+                          <td colSpan={6} className="px-4 py-2 text-right text-gray-700">SGST:</td>
+                          <td className="px-4 py-2 text-right font-medium">{symbol}{gstBreakdown.totals.sgst.toFixed(2)}</td>
+                          <td colSpan={2}></td>
+                        </tr>
+                      </>
+                    )}
+                    {discount > 0 && (
+                      <tr>
+                        <td colSpan={6} className="px-4 py-2 text-right text-gray-700">Discount:</td>
+                        <td className="px-4 py-2 text-right font-medium">−{symbol}{discount.toFixed(2)}</td>
+                        <td colSpan={2}></td>
+                      </tr>
+                    )}
                     <tr>
-                      <td colSpan={3} className="px-4 py-3 text-right font-bold text-gray-900">
+                      <td colSpan={6} className="px-4 py-3 text-right font-bold text-gray-900">
                         TOTAL:
                       </td>
                       <td className="px-4 py-3 text-right font-bold text-blue-600 text-lg">
-                        ₹{total.toFixed(2)}
+                        {symbol}{grandTotal.toFixed(2)}
                       </td>
-                      <td></td>
+                      <td colSpan={2}></td>
                     </tr>
+                    {isForeign && exchangeRate && (
+                      <tr>
+                        <td colSpan={6} className="px-4 py-2 text-right text-gray-700">
+                          In {BASE_CURRENCY} @ {exchangeRate.rate} ({exchangeRate.date}):
+                        </td>
+                        <td className="px-4 py-2 text-right font-medium">₹{toBase(grandTotal).toFixed(2)}</td>
+                        <td colSpan={2}></td>
+                      </tr>
+                    )}
                   </tfoot>
                 </table>
               </div>
             </div>
           )}
 
+          {/* Purchase: stock and cost preview */}
+          {billItems.length > 0 && direction === 'purchase' && (
+            <div className="p-4 rounded-lg border border-gray-200 bg-gray-50">
+              <div className="flex flex-wrap items-center justify-between gap-3">
+                <label className="flex items-center gap-2 text-sm font-medium text-gray-900">
+                  <input
+                    type="checkbox"
+                    checked={recordPurchase}
+                    onChange={(e) => setRecordPurchase(e.target.checked)}
+                    className="w-4 h-4"
+                  />
+                  <Package className="w-4 h-4 text-gray-600" />
+                  Add received quantities to stock
+                </label>
+                {recordPurchase && (
+                  <label className="flex items-center gap-2 text-xs text-gray-700">
+                    Cost price
+                    <select
+                      value={costMethod}
+                      onChange={(e) => setCostMethod(e.target.value as CostMethod)}
+                      className="px-2 py-1 border border-gray-300 rounded text-xs"
+                    >
+                      <option value="weighted-average">Weighted average</option>
+                      <option value="last-cost">Last purchase cost</option>
+                      <option value="keep">Keep current</option>
+                    </select>
+                  </label>
+                )}
+              </div>
+
+              {addToStock && (
+                stockPreview.length === 0 ? (
+                  <p className="mt-3 text-xs text-gray-600">No linked or confirmed products to add to stock.</p>
+                ) : (
+                  <table className="mt-3 w-full text-xs">
+                    <thead>
+                      <tr className="text-gray-500">
+                        <th className="py-1 text-left font-medium">Product</th>
+                        <th className="py-1 text-right font-medium">Received</th>
+                        <th className="py-1 text-right font-medium">Stock</th>
+                        <th className="py-1 text-right font-medium">Cost price (₹)</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-200">
+                      {stockPreview.map(change => (
+                        <tr key={change.productId || change.productName}>
+                          <td className="py-1 text-gray-900">
+                            {change.productName}
+                            {!change.productId && <span className="ml-1 text-blue-700">(new)</span>}
+                          </td>
+                          <td className="py-1 text-right text-gray-700">+{change.quantity} @ ₹{change.unitCost.toFixed(2)}</td>
+                          <td className="py-1 text-right text-gray-900">{change.stockBefore} → <span className="font-semibold">{change.stockAfter}</span></td>
+                          <td className="py-1 text-right text-gray-900">
+                            {change.costBefore.toFixed(2)} → <span className={change.costAfter !== change.costBefore ? 'font-semibold' : ''}>{change.costAfter.toFixed(2)}</span>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )
+              )}
+              {addToStock && duplicateCandidates.length > 0 && (
+                <p className="mt-2 text-xs text-gray-600">Merging into an existing bill only adds the difference to what that bill already received.</p>
+              )}
+            </div>
+          )}
+
+          {/* Arithmetic reconciliation */}
+          {billItems.length > 0 && (
+            <div className={`p-4 rounded-lg border ${reconciliation.hasErrors ? 'bg-red-50 border-red-200' : 'bg-green-50 border-green-200'}`}>
+              <div className="flex items-center gap-2 mb-2">
+                {reconciliation.hasErrors ? (
+                  <AlertTriangle className="w-4 h-4 text-red-600" />
+                ) : (
+                  <CheckCircle className="w-4 h-4 text-green-600" />
+                )}
+                <h3 className={`text-sm font-semibold ${reconciliation.hasErrors ? 'text-red-900' : 'text-green-900'}`}>
+                  {reconciliation.hasErrors ? 'Amounts do not reconcile' : 'Amounts reconcile'}
+                </h3>
+                <span className="ml-auto text-xs text-gray-600">
+                  Printed: subtotal {symbol}{printedTotals.subtotal.toFixed(2)} · tax {symbol}{printedTotals.taxes.toFixed(2)} ·{' '}
+                  <button onClick={() => setActiveField('grandTotal')} className="underline decoration-dotted hover:text-gray-900" title="Show on the image">
+                    total {symbol}{printedTotals.grandTotal.toFixed(2)}
+                  </button>
+                </span>
+              </div>
+              {invoice.amountInWords && (
+                <p className={`mb-2 text-xs ${invoice.amountInWords.status === 'mismatch' ? 'text-amber-800' : 'text-gray-700'}`}>
+                  In words: “{invoice.amountInWords.words}” = {symbol}{invoice.amountInWords.amount.toFixed(2)}
+                  {invoice.amountInWords.status === 'match' && ' · matches the grand total'}
+                  {invoice.amountInWords.status === 'corrected' && (invoice.amountInWords.printedTotal !== undefined
+                    ? ` · grand total corrected from ${invoice.amountInWords.printedTotal.toFixed(2)} (one digit misread)`
+                    : ' · used as the grand total')}
+                </p>
+              )}
+              {reconciliation.discrepancies.length > 0 && (
+                <ul className="space-y-2 text-xs">
+                  {reconciliation.discrepancies.map((discrepancy, idx) => (
+                    <li key={idx} className="flex flex-col md:flex-row md:items-center gap-2">
+                      <span className={`px-1.5 py-0.5 rounded font-medium uppercase text-[10px] ${
+                        discrepancy.severity === 'error' ? 'bg-red-100 text-red-700'
+                          : discrepancy.severity === 'warning' ? 'bg-amber-100 text-amber-700'
+                          : 'bg-blue-100 text-blue-700'
+                      }`}>
+                        {discrepancy.severity}
+                      </span>
+                      <span className="flex-1 text-gray-800">{discrepancy.message}</span>
+                      {discrepancy.corrections.map(correction => (
+                        <button
+                          key={correction.path}
+                          onClick={() => applyCorrection(correction)}
+                          className="px-2 py-1 rounded border border-gray-300 bg-white hover:bg-gray-100 transition"
+                        >
+                          {correction.label}
+                        </button>
+                      ))}
+                    </li>
+                  ))}
+                </ul>
+              )}
+              {reconciliation.hasErrors && (
+                <label className="mt-3 flex items-center gap-2 text-xs text-red-800">
+                  <input
+                    type="checkbox"
+                    checked={acknowledgeDiscrepancies}
+                    onChange={(e) => setAcknowledgeDiscrepancies(e.target.checked)}
+                  />
+                  I have checked the amounts against the original invoice and want to import anyway
+                </label>
+              )}
+            </div>
+          )}
+
           {billItems.length === 0 && (
             <div className="text-center py-8 bg-gray-50 rounded-lg border-2 border-dashed border-gray-300">
               <p className="text-gray-500">No items added yet. Add items using the form above.</p>
@@ -636,7 +2045,7 @@ export const InvoiceImport: React.FC<InvoiceImportProps> = ({ invoice, onClose,
             Cancel
           </button>
           <button
-            onClick={handleImport}
+            onClick={() => handleImport()}
             disabled={isImporting}
             className="px-6 py-2 text-sm font-medium text-white bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700 rounded-lg transition disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
           >
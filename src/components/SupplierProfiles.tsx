@@ -0,0 +1,129 @@
+import React, { useState } from 'react';
+import { X, Building2, Download, Upload, Trash2 } from 'lucide-react';
+import { SupplierProfileStore } from '../utils/supplierProfiles';
+import { SupplierProfile } from '../types/invoice';
+
+interface SupplierProfilesProps {
+  onClose: () => void;
+}
+
+export const SupplierProfiles: React.FC<SupplierProfilesProps> = ({ onClose }) => {
+  const [profiles, setProfiles] = useState<SupplierProfile[]>(() => SupplierProfileStore.all());
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  const refresh = () => setProfiles(SupplierProfileStore.all());
+
+  const exportProfiles = () => {
+    const blob = new Blob([SupplierProfileStore.exportJson()], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `supplier-profiles-${new Date().toISOString().split('T')[0]}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const importProfiles = async (file: File) => {
+    try {
+      const count = SupplierProfileStore.importJson(await file.text());
+      setMessage({ type: 'success', text: `Imported ${count} supplier profile(s)` });
+      refresh();
+    } catch (error) {
+      setMessage({ type: 'error', text: (error as Error).message || 'Could not read the profiles file' });
+    }
+  };
+
+  const removeProfile = (profile: SupplierProfile) => {
+    if (!confirm(`Forget everything learned about ${profile.companyName}?`)) return;
+    SupplierProfileStore.remove(profile.gstin);
+    refresh();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-40 p-4">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-3xl w-full max-h-[90vh] flex flex-col overflow-hidden">
+        {/* Header */}
+        <div className="bg-gradient-to-r from-blue-600 to-indigo-600 px-6 py-4 flex items-center justify-between rounded-t-2xl flex-shrink-0">
+          <div className="flex items-center gap-3">
+            <Building2 className="w-6 h-6 text-white" />
+            <h2 className="text-xl font-bold text-white">Supplier Profiles</h2>
+          </div>
+          <button onClick={onClose} className="text-white/80 hover:text-white transition">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-4">
+          <p className="text-sm text-gray-600">
+            Each confirmed import teaches the app where a supplier prints its invoice number, date and total,
+            its date format, tax style and usual items. Export the profiles to share them with another device.
+          </p>
+
+          {message && (
+            <div className={`p-3 rounded-lg text-sm ${message.type === 'success' ? 'bg-green-50 text-green-800' : 'bg-red-50 text-red-800'}`}>
+              {message.text}
+            </div>
+          )}
+
+          {profiles.length === 0 ? (
+            <div className="text-center text-sm text-gray-500 py-8">
+              No supplier profiles yet. They are created when you import an invoice with a valid supplier GSTIN.
+            </div>
+          ) : (
+            <div className="border border-gray-200 rounded-lg divide-y divide-gray-200">
+              {profiles.map(profile => (
+                <div key={profile.gstin} className="flex items-center gap-3 px-4 py-3">
+                  <div className="flex-1 min-w-0">
+                    <div className="text-sm font-medium text-gray-900 truncate">{profile.companyName}</div>
+                    <div className="text-xs text-gray-500 truncate">
+                      {profile.gstin} · {profile.invoiceCount} invoice(s) · {profile.itemCatalog.length} item(s)
+                      {profile.dateFormat ? ` · ${profile.dateFormat}` : ''}
+                      {` · updated ${new Date(profile.updatedAt).toLocaleDateString()}`}
+                    </div>
+                  </div>
+                  <button
+                    onClick={() => removeProfile(profile)}
+                    className="p-1.5 text-red-600 hover:bg-red-50 rounded transition"
+                    title="Delete profile"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="border-t border-gray-200 px-6 py-4 bg-gray-50 flex items-center justify-end gap-3 rounded-b-2xl flex-shrink-0">
+          <input
+            id="supplier-profiles-input"
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) importProfiles(file);
+              e.target.value = '';
+            }}
+          />
+          <label
+            htmlFor="supplier-profiles-input"
+            className="px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-200 rounded-lg transition cursor-pointer flex items-center gap-2"
+          >
+            <Upload className="w-4 h-4" />
+            Import
+          </label>
+          <button
+            onClick={exportProfiles}
+            disabled={profiles.length === 0}
+            className="px-5 py-2 text-sm font-medium text-white bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700 rounded-lg transition disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
+          >
+            <Download className="w-4 h-4" />
+            Export
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
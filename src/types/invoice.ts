@@ -0,0 +1,381 @@
+export interface GstinCorrection {
+  position: number;
+  from: string;
+  to: string;
+}
+
+export interface GstinSuggestion {
+  gstin: string;
+  changes: GstinCorrection[];
+  stateName?: string;
+}
+
+export interface GstinValidation {
+  input: string;
+  normalized: string;
+  isValid: boolean;
+  structureValid: boolean;
+  checksumValid: boolean;
+  stateCode?: string;
+  stateName?: string;
+  pan?: string;
+  panHolderType?: string;
+  entityNumber?: string;
+  expectedCheckDigit?: string;
+  errors: string[];
+  suggestions: GstinSuggestion[];
+}
+
+export interface InvoiceFieldError {
+  path: string;
+  message: string;
+  value?: unknown;
+}
+
+export type FieldSource = 'ocr' | 'llm' | 'imputed' | 'qr';
+
+export interface FieldProvenance {
+  source: FieldSource;
+  confidence: number; // 0–1
+  agreement: 'agree' | 'disagree' | 'single-source';
+  ocrConfidence?: number;
+  ocrValue?: string | number;
+}
+
+// Keyed by field path, e.g. "gstNumber" or "items[0].rate"
+export type InvoiceProvenance = Record<string, FieldProvenance>;
+
+export interface OcrDetection {
+  text: string;
+  confidence: number;
+  bbox?: [number, number, number, number]; // x0, y0, x1, y1 from the top-left of the page
+  page?: number; // 1-based, for multi-page documents
+}
+
+/** Normalised OCR output: the whole text plus one detection per recognised line or word. */
+export interface OcrResponse {
+  full_text?: string;
+  detections?: OcrDetection[];
+}
+
+export type DiscrepancyType =
+  | 'line_total_mismatch'
+  | 'gst_inclusive_line'
+  | 'subtotal_mismatch'
+  | 'tax_mismatch'
+  | 'round_off'
+  | 'grand_total_mismatch'
+  | 'amount_in_words_mismatch';
+
+export interface InvoiceCorrection {
+  path: string;
+  value: number;
+  label: string;
+}
+
+export interface InvoiceDiscrepancy {
+  type: DiscrepancyType;
+  severity: 'error' | 'warning' | 'info';
+  path: string;
+  message: string;
+  expected: number;
+  actual: number;
+  difference: number;
+  corrections: InvoiceCorrection[];
+}
+
+export interface ReconciliationReport {
+  discrepancies: InvoiceDiscrepancy[];
+  hasErrors: boolean;
+  computed: {
+    taxableValue: number;
+    lineTotal: number;
+    taxes: number;
+    roundOff: number;
+    grandTotal: number;
+  };
+}
+
+export type SupplyType = 'intra' | 'inter';
+
+export interface GstLineSplit {
+  taxableValue: number;
+  gstRate: number;
+  cgst: number;
+  sgst: number;
+  igst: number;
+  totalTax: number;
+}
+
+export interface GstBreakdown {
+  supplyType: SupplyType;
+  supplyTypeAssumed: boolean; // true when either party's state could not be determined
+  lines: GstLineSplit[];
+  totals: GstLineSplit;
+}
+
+export interface DuplicateCheckLine {
+  name: string;
+  quantity: number;
+  rate: number;
+}
+
+export interface DuplicateCheckInput {
+  supplierGstin?: string;
+  invoiceNumber?: string;
+  billDate: string; // YYYY-MM-DD
+  totalAmount: number;
+  items: DuplicateCheckLine[];
+}
+
+export interface DuplicateCandidate {
+  billId: string;
+  billNumber: string;
+  billDate: string;
+  totalAmount: number;
+  score: number; // 0..1
+  exactMatch: boolean; // same supplier GSTIN and invoice number
+  itemSimilarity: number;
+  reasons: string[];
+}
+
+export type DuplicateResolution =
+  | { action: 'force' }
+  | { action: 'merge'; billId: string };
+
+export type InvoiceBatchStatus = 'queued' | 'ocr' | 'structuring' | 'needs-review' | 'imported' | 'failed';
+
+export type ProfiledField = 'invoiceNumber' | 'date' | 'grandTotal';
+
+export interface FieldPosition {
+  x: number; // Centre of the detection as a fraction of the page width
+  y: number; // ...and of the page height
+  page?: number;
+  sample: string; // Detection text the value was read from
+}
+
+export interface SupplierCatalogItem {
+  name: string;
+  hsnSac?: string;
+  gstRate?: number;
+  lastRate?: number;
+  productId?: string;
+  count: number;
+}
+
+export interface SupplierCorrection {
+  path: string; // e.g. "items[].name", "invoiceNumber"
+  extracted: string;
+  corrected: string;
+  at: string; // ISO timestamp
+}
+
+export interface SupplierProfile {
+  gstin: string;
+  companyName: string;
+  address?: string;
+  invoiceCount: number;
+  updatedAt: string;
+  dateFormat?: 'DD/MM/YYYY' | 'MM/DD/YYYY' | 'YYYY-MM-DD';
+  taxStyle: {
+    supplyType?: SupplyType;
+    gstInclusiveLines: boolean;
+    typicalRates: number[];
+  };
+  fieldPositions: Partial<Record<ProfiledField, FieldPosition>>;
+  itemCatalog: SupplierCatalogItem[];
+  corrections: SupplierCorrection[];
+}
+
+/** One extracted value the reviewer changed before importing. */
+export interface ExtractionCorrection {
+  field: string; // Path without item indexes, e.g. "items[].rate"; "items[]" for added or removed rows
+  before: string;
+  after: string;
+  source?: FieldSource; // Where the extracted value came from, when provenance was tracked
+}
+
+/** The invoice as the reviewer confirmed it; the expected output of a regression fixture. */
+export interface ConfirmedInvoice {
+  companyName: string;
+  gstNumber?: string;
+  invoiceNumber?: string;
+  billDate: string;
+  grandTotal: number;
+  items: Array<{ name: string; quantity: number; rate: number; gstRate: number; hsnSac?: string }>;
+}
+
+export interface ExtractionReview {
+  id: string;
+  reviewedAt: string; // ISO timestamp
+  fileName?: string;
+  supplierGstin?: string;
+  supplierName: string;
+  fieldsChecked: Record<string, number>; // Field → values reviewed, e.g. one per line item
+  corrections: ExtractionCorrection[];
+  ocr?: OcrResponse; // Kept so the invoice can be replayed as a fixture
+  confirmed: ConfirmedInvoice;
+}
+
+export interface FieldAccuracy {
+  field: string;
+  checked: number;
+  corrected: number;
+  accuracy: number; // 0–1
+}
+
+export interface SupplierAccuracy extends Omit<FieldAccuracy, 'field'> {
+  gstin?: string;
+  name: string;
+  invoices: number;
+}
+
+export interface AccuracyPeriod {
+  period: string; // Monday of the week, YYYY-MM-DD
+  fields: Record<string, { checked: number; corrected: number }>;
+  checked: number;
+  corrected: number;
+}
+
+export interface ExtractionMetrics {
+  reviews: number;
+  overall: Omit<FieldAccuracy, 'field'>;
+  fields: FieldAccuracy[];
+  suppliers: SupplierAccuracy[];
+  sources: Partial<Record<FieldSource | 'untracked', number>>; // Corrections by extraction source
+  timeline: AccuracyPeriod[];
+}
+
+export interface ProductMatch {
+  productId: string;
+  productName: string;
+  score: number; // 0–1
+  reasons: string[];
+}
+
+export interface PartyMatch {
+  partyId: string;
+  partyName: string;
+  score: number; // 0–1
+  reasons: string[];
+}
+
+export type ImportStepStatus = 'done' | 'failed' | 'rolled-back' | 'rollback-failed';
+
+export interface ImportStep {
+  label: string;
+  table: string;
+  status: ImportStepStatus;
+  detail?: string; // Error message for failed steps and failed rollbacks
+}
+
+/** Outcome of one import attempt, step by step. */
+export interface ImportReport {
+  committed: boolean;
+  error?: string;
+  steps: ImportStep[];
+}
+
+export type CostMethod = 'keep' | 'weighted-average' | 'last-cost';
+
+/** Effect of a purchase invoice on one product. */
+export interface StockChange {
+  productId: string; // Empty for products the import is about to create
+  productName: string;
+  quantity: number; // Net quantity received; negative when a merged bill now has fewer units
+  unitCost: number; // Taxable value per unit, excluding GST
+  stockBefore: number;
+  stockAfter: number;
+  costBefore: number;
+  costAfter: number;
+}
+
+export type InvoiceDirection = 'sale' | 'purchase' | 'expense';
+
+export type PaymentStatus = 'Paid' | 'Unpaid' | 'Partially Paid';
+
+export interface DirectionDetection {
+  direction: InvoiceDirection;
+  assumed: boolean; // No GSTIN or layout evidence; the default was used
+  reasons: string[];
+}
+
+/** Numbering of the bills of one direction, e.g. "FY{fy}/{seq}" → FY26-27/0001. */
+export interface BillNumberSeries {
+  direction: InvoiceDirection;
+  pattern: string; // {fy} is replaced by the financial year, {seq} by the sequence
+  padding: number; // Minimum digits of the sequence
+}
+
+export interface BillNumberPreview {
+  financialYear: string;
+  next: string;
+  issued: number;
+  gaps: string[]; // Numbers below the highest issued one that no bill uses, the first few only
+  gapCount: number;
+}
+
+export interface CurrencyDetection {
+  currency: string; // ISO 4217 code
+  assumed: boolean; // No currency marks found; the base currency was used
+  evidence: string[];
+}
+
+/** Units of the base currency per unit of `currency`, valid from `date` until the next rate. */
+export interface ExchangeRate {
+  currency: string;
+  date: string; // YYYY-MM-DD
+  rate: number;
+}
+
+/** The grand total as printed in words, compared with the figure. */
+export interface AmountInWordsCheck {
+  words: string;
+  amount: number;
+  status: 'match' | 'corrected' | 'mismatch'; // Corrected: the figure was replaced by the words
+  printedTotal?: number; // The figure as extracted, when there was one
+}
+
+/** An invoice date read into ISO form, with how sure the reading is. */
+export interface NormalizedDate {
+  iso: string; // YYYY-MM-DD
+  financialYear: string; // Indian financial year, e.g. "25-26"
+  original: string;
+  confidence: number; // 0–1
+  warnings: string[];
+}
+
+/** A photo cleaned up for OCR, with what was done to it. */
+export interface PreprocessedImage {
+  file: File; // PNG
+  width: number;
+  height: number;
+  steps: string[]; // Human-readable, in the order applied
+}
+
+/** Fields of the signed QR code on a GST e-invoice. */
+export interface EInvoicePayload {
+  irn: string;
+  irnDate?: string;
+  sellerGstin: string;
+  buyerGstin?: string; // Absent for unregistered buyers
+  documentNumber: string;
+  documentType?: string; // INV, CRN or DBN
+  documentDate: string; // YYYY-MM-DD
+  totalValue: number;
+  itemCount?: number;
+  mainHsnCode?: string;
+}
+
+export interface EInvoiceMismatch {
+  field: 'gstNumber' | 'buyerGstin' | 'invoiceNumber' | 'date' | 'grandTotal' | 'items';
+  label: string;
+  qr: string;
+  extracted: string;
+}
+
+/** The decoded e-invoice QR and where the extracted values disagreed with it. */
+export interface EInvoiceCheck {
+  payload: EInvoicePayload;
+  mismatches: EInvoiceMismatch[];
+}
@@ -0,0 +1,203 @@
+import { AmountInWordsCheck, InvoiceProvenance } from '../types/invoice';
+
+const ENGLISH_NUMBERS: Record<string, number> = {
+  zero: 0, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9,
+  ten: 10, eleven: 11, twelve: 12, thirteen: 13, fourteen: 14, fifteen: 15, sixteen: 16,
+  seventeen: 17, eighteen: 18, nineteen: 19, twenty: 20, thirty: 30, forty: 40, fourty: 40,
+  fifty: 50, sixty: 60, seventy: 70, eighty: 80, ninety: 90
+};
+
+// Hindi has an irregular word for every number up to 99
+const HINDI_NUMBERS = [
+  'शून्य', 'एक', 'दो', 'तीन', 'चार', 'पांच', 'छह', 'सात', 'आठ', 'नौ',
+  'दस', 'ग्यारह', 'बारह', 'तेरह', 'चौदह', 'पंद्रह', 'सोलह', 'सत्रह', 'अठारह', 'उन्नीस',
+  'बीस', 'इक्कीस', 'बाईस', 'तेईस', 'चौबीस', 'पच्चीस', 'छब्बीस', 'सत्ताईस', 'अट्ठाईस', 'उनतीस',
+  'तीस', 'इकतीस', 'बत्तीस', 'तैंतीस', 'चौंतीस', 'पैंतीस', 'छत्तीस', 'सैंतीस', 'अडतीस', 'उनतालीस',
+  'चालीस', 'इकतालीस', 'बयालीस', 'तैंतालीस', 'चवालीस', 'पैंतालीस', 'छियालीस', 'सैंतालीस', 'अडतालीस', 'उनचास',
+  'पचास', 'इक्यावन', 'बावन', 'तिरपन', 'चौवन', 'पचपन', 'छप्पन', 'सत्तावन', 'अट्ठावन', 'उनसठ',
+  'साठ', 'इकसठ', 'बासठ', 'तिरसठ', 'चौंसठ', 'पैंसठ', 'छियासठ', 'सडसठ', 'अडसठ', 'उनहत्तर',
+  'सत्तर', 'इकहत्तर', 'बहत्तर', 'तिहत्तर', 'चौहत्तर', 'पचहत्तर', 'छिहत्तर', 'सतहत्तर', 'अठहत्तर', 'उन्यासी',
+  'अस्सी', 'इक्यासी', 'बयासी', 'तिरासी', 'चौरासी', 'पचासी', 'छियासी', 'सत्तासी', 'अट्ठासी', 'नवासी',
+  'नब्बे', 'इक्यानवे', 'बानवे', 'तिरानवे', 'चौरानवे', 'पचानवे', 'छियानवे', 'सत्तानवे', 'अट्ठानवे', 'निन्यानवे'
+];
+
+const HINDI_VARIANTS: Record<string, number> = { 'छः': 6, 'छे': 6, 'पन्द्रह': 15, 'उन्यासी': 79, 'उनासी': 79 };
+
+const MULTIPLIERS: Record<string, number> = {
+  hundred: 100, thousand: 1e3, lakh: 1e5, lakhs: 1e5, lac: 1e5, lacs: 1e5, crore: 1e7, crores: 1e7,
+  million: 1e6, billion: 1e9,
+  'सौ': 100, 'हजार': 1e3, 'लाख': 1e5, 'करोड': 1e7
+};
+
+const CURRENCY_WORDS = new Set([
+  'rupees', 'rupee', 'rs', 'inr', 'dollars', 'dollar', 'usd', 'euros', 'euro', 'eur',
+  'रुपये', 'रुपए', 'रुपया', 'रुपयों', 'रूपये', 'रूपए', 'रु'
+]);
+const SUBUNIT_WORDS = new Set(['paise', 'paisa', 'cents', 'cent', 'पैसे', 'पैसा']);
+const CONNECTORS = new Set(['and', 'और']);
+const TERMINATORS = new Set(['only', 'मात्र', 'केवल']);
+
+type TokenKind = 'number' | 'multiplier' | 'currency' | 'subunit' | 'connector' | 'other';
+
+interface Token {
+  text: string;
+  kind: TokenKind;
+  value: number;
+}
+
+// Nukta and chandrabindu are spelled inconsistently (हज़ार/हजार, पाँच/पांच)
+const normalizeWord = (word: string) => word.toLowerCase().replace(/़/g, '').replace(/ँ/g, 'ं');
+
+const HINDI_LOOKUP = new Map<string, number>([
+  ...HINDI_NUMBERS.map((word, value) => [normalizeWord(word), value] as [string, number]),
+  ...Object.entries(HINDI_VARIANTS).map(([word, value]) => [normalizeWord(word), value] as [string, number])
+]);
+
+function classify(word: string): Token {
+  const text = normalizeWord(word);
+  if (text in ENGLISH_NUMBERS) return { text, kind: 'number', value: ENGLISH_NUMBERS[text] };
+  if (HINDI_LOOKUP.has(text)) return { text, kind: 'number', value: HINDI_LOOKUP.get(text) as number };
+  if (text in MULTIPLIERS) return { text, kind: 'multiplier', value: MULTIPLIERS[text] };
+  if (/^\d+(?:\.\d+)?$/.test(text)) return { text, kind: 'number', value: parseFloat(text) };
+  if (CURRENCY_WORDS.has(text)) return { text, kind: 'currency', value: 0 };
+  if (SUBUNIT_WORDS.has(text)) return { text, kind: 'subunit', value: 0 };
+  if (CONNECTORS.has(text)) return { text, kind: 'connector', value: 0 };
+  return { text, kind: 'other', value: 0 };
+}
+
+// Abbreviation dots are dropped ("Rs." → "rs"), decimal points kept
+const stripDots = (word: string) => word.replace(/\.(?!\d)/g, '');
+
+const splitWords = (text: string) => text.split(/[\s,;:()/\-–—]+/).filter(word => stripDots(word));
+
+const tokenize = (text: string): Token[] => splitWords(text).map(word => classify(stripDots(word)));
+
+/** Value of number words, e.g. [twelve, thousand, four, hundred] → 12400. */
+function valueOf(tokens: Token[]): number {
+  let total = 0;
+  let current = 0;
+  tokens.forEach(token => {
+    if (token.kind === 'number') {
+      current += token.value;
+    } else if (token.kind === 'multiplier' && token.value === 100) {
+      current = (current || 1) * 100;
+    } else if (token.kind === 'multiplier') {
+      total += (current || 1) * token.value;
+      current = 0;
+    }
+  });
+  return total + current;
+}
+
+const isNumeric = (token: Token) => token.kind === 'number' || token.kind === 'multiplier';
+
+/** Splits a run at its paise: "… and fifty paise", "… rupees fifty paise" or "… paise fifty". */
+function splitSubunits(run: Token[]): { main: Token[]; sub: Token[] } {
+  const subIndex = run.findIndex(token => token.kind === 'subunit');
+  if (subIndex === -1) return { main: run, sub: [] };
+
+  const after = run.slice(subIndex + 1);
+  if (after.some(isNumeric)) return { main: run.slice(0, subIndex), sub: after };
+
+  const before = run.slice(0, subIndex);
+  const currencyIndex = before.findIndex(token => token.kind === 'currency');
+  if (currencyIndex > 0 && before.slice(0, currencyIndex).some(isNumeric)) {
+    return { main: before.slice(0, currencyIndex), sub: before.slice(currencyIndex + 1) };
+  }
+  const connectorIndex = before.map(token => token.kind).lastIndexOf('connector');
+  if (connectorIndex !== -1) return { main: before.slice(0, connectorIndex), sub: before.slice(connectorIndex + 1) };
+
+  // No separator: the trailing words below a hundred are the paise
+  let start = before.length;
+  while (start > 0 && before[start - 1].kind === 'number' && before[start - 1].value < 100) start--;
+  return { main: before.slice(0, start), sub: before.slice(start) };
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+/** True when two amounts differ in exactly one digit, e.g. 12480.00 and 12400.00. */
+export function differsByOneDigit(a: number, b: number): boolean {
+  const left = a.toFixed(2);
+  const right = b.toFixed(2);
+  if (left.length !== right.length) return false;
+  return [...left].filter((char, idx) => char !== right[idx]).length === 1;
+}
+
+export class AmountInWords {
+  /** Amount written in English or Hindi words, e.g. "Rupees One Lakh Twenty Thousand and Fifty Paise". */
+  static parse(words: string): number | null {
+    const tokens = tokenize(words).filter(token => token.kind !== 'other');
+    if (!tokens.some(isNumeric)) return null;
+    const { main, sub } = splitSubunits(tokens);
+    const amount = round2(valueOf(main) + Math.min(99, valueOf(sub)) / 100);
+    return amount > 0 ? amount : null;
+  }
+
+  /**
+   * The longest run of number words in the OCR text that reads as an amount:
+   * it names a currency or paise, ends with "only"/"मात्र", or follows "in words".
+   */
+  static find(text: string): { words: string; amount: number } | null {
+    const words = splitWords(text);
+    const tokens = tokenize(text);
+    let best: { words: string; amount: number; size: number } | null = null;
+
+    let idx = 0;
+    while (idx < tokens.length) {
+      const startsRun = tokens[idx].kind === 'currency' || (tokens[idx].kind === 'number' && !/\d/.test(tokens[idx].text));
+      if (!startsRun) {
+        idx++;
+        continue;
+      }
+
+      let end = idx;
+      while (end < tokens.length) {
+        const token = tokens[end];
+        const next = tokens[end + 1];
+        const digitsBeforeMultiplier = /\d/.test(token.text) && next?.kind === 'multiplier';
+        if (token.kind === 'other' || (token.kind === 'number' && /\d/.test(token.text) && !digitsBeforeMultiplier)) break;
+        end++;
+      }
+
+      const run = tokens.slice(idx, end);
+      const wordCount = run.filter(token => isNumeric(token) && !/\d/.test(token.text)).length;
+      const hasContext = run.some(token => token.kind === 'currency' || token.kind === 'subunit')
+        || TERMINATORS.has(tokens[end]?.text ?? '')
+        || tokens.slice(Math.max(0, idx - 3), idx).some(token => token.text === 'words' || token.text === 'शब्दों');
+      if (wordCount > 0 && hasContext && (!best || wordCount > best.size)) {
+        const amount = this.parse(words.slice(idx, end).join(' '));
+        if (amount !== null) best = { words: words.slice(idx, end).join(' '), amount, size: wordCount };
+      }
+      idx = Math.max(end, idx + 1);
+    }
+
+    return best ? { words: best.words, amount: best.amount } : null;
+  }
+
+  /**
+   * Compares the grand total with the amount in words printed on the invoice.
+   * A missing total, or one that differs in a single digit (a typical OCR
+   * misread), is replaced by the amount in words; other differences are only
+   * reported, since the words can be misread too.
+   */
+  static crossCheck<T extends { grandTotal?: number; provenance?: InvoiceProvenance; amountInWords?: AmountInWordsCheck }>(
+    invoice: T,
+    text: string
+  ): T {
+    const found = this.find(text);
+    if (!found) return invoice;
+
+    const printed = invoice.provenance?.grandTotal?.source === 'imputed' ? undefined : invoice.grandTotal;
+    const check = { words: found.words, amount: found.amount, printedTotal: printed };
+    // Words usually leave out the paise of a rounded total
+    const wordsAreRounded = Number.isInteger(found.amount) && printed !== undefined && Math.abs(printed - found.amount) < 1;
+
+    if (printed !== undefined && (Math.abs(printed - found.amount) < 0.005 || wordsAreRounded)) {
+      return { ...invoice, amountInWords: { ...check, status: 'match' } };
+    }
+    if (printed === undefined || printed === 0 || differsByOneDigit(printed, found.amount)) {
+      return { ...invoice, grandTotal: found.amount, amountInWords: { ...check, status: 'corrected' } };
+    }
+    return { ...invoice, amountInWords: { ...check, status: 'mismatch' } };
+  }
+}
@@ -0,0 +1,141 @@
+import { BillNumberPreview, BillNumberSeries, InvoiceDirection } from '../types/invoice';
+import { supabase } from './supabaseClient';
+import { financialYear } from './dateNormalizer';
+
+const SERIES_STORAGE_KEY = 'bill-number-series';
+const MAX_ALLOCATION_ATTEMPTS = 5;
+const UNIQUE_VIOLATION = '23505'; // Postgres error code of a duplicate key
+const PAGE_SIZE = 1000; // PostgREST's default max-rows
+const MAX_LISTED_GAPS = 100;
+
+export const DEFAULT_BILL_SERIES: Record<InvoiceDirection, BillNumberSeries> = {
+  sale: { direction: 'sale', pattern: 'FY{fy}/{seq}', padding: 4 },
+  purchase: { direction: 'purchase', pattern: 'PUR/FY{fy}/{seq}', padding: 4 },
+  expense: { direction: 'expense', pattern: 'EXP/FY{fy}/{seq}', padding: 4 }
+};
+
+interface InsertResult<T> {
+  data: T | null;
+  error: { message: string; code?: string } | null;
+}
+
+// Escapes the wildcards of a LIKE pattern
+const escapeLike = (text: string) => text.replace(/[\\%_]/g, char => `\\${char}`);
+
+export class BillNumbering {
+  static getSeries(direction: InvoiceDirection): BillNumberSeries {
+    return this.readSeries()[direction] || DEFAULT_BILL_SERIES[direction];
+  }
+
+  static saveSeries(series: BillNumberSeries): void {
+    if (!series.pattern.includes('{seq}')) throw new Error('The numbering pattern must contain {seq}');
+    if (!series.pattern.includes('{fy}')) throw new Error('The numbering pattern must contain {fy}');
+    const stored = this.readSeries();
+    stored[series.direction] = { ...series, padding: Math.min(8, Math.max(1, Math.round(series.padding) || 1)) };
+    localStorage.setItem(SERIES_STORAGE_KEY, JSON.stringify(stored));
+  }
+
+  static format(series: BillNumberSeries, fy: string, sequence: number): string {
+    return series.pattern.replace('{fy}', fy).replace('{seq}', String(sequence).padStart(series.padding, '0'));
+  }
+
+  /** Sequence of a bill number in the series and year, or null when it belongs elsewhere. */
+  static sequenceOf(billNumber: string, series: BillNumberSeries, fy: string): number | null {
+    const [before, after] = series.pattern.replace('{fy}', fy).split('{seq}');
+    if (!billNumber.startsWith(before) || !billNumber.endsWith(after)) return null;
+    const digits = billNumber.slice(before.length, billNumber.length - after.length);
+    return /^\d+$/.test(digits) ? parseInt(digits, 10) : null;
+  }
+
+  /**
+   * Next number after the highest one issued, and the numbers skipped below it.
+   * Only the first gaps are listed, so a mistyped huge number cannot stall the scan.
+   */
+  static plan(issuedNumbers: string[], series: BillNumberSeries, fy: string): BillNumberPreview {
+    const sequences = new Set(
+      issuedNumbers
+        .map(number => this.sequenceOf(number, series, fy))
+        .filter((sequence): sequence is number => sequence !== null && sequence > 0)
+    );
+    const highest = Math.max(0, ...sequences);
+    const gaps: string[] = [];
+    for (let sequence = 1; sequence < highest && gaps.length < MAX_LISTED_GAPS; sequence++) {
+      if (!sequences.has(sequence)) gaps.push(this.format(series, fy, sequence));
+    }
+    return {
+      financialYear: fy,
+      next: this.format(series, fy, highest + 1),
+      issued: sequences.size,
+      gaps,
+      gapCount: highest - sequences.size
+    };
+  }
+
+  static async preview(series: BillNumberSeries, billDate: string): Promise<BillNumberPreview> {
+    const fy = financialYear(billDate);
+    return this.plan(await this.issuedNumbers(series, fy), series, fy);
+  }
+
+  /**
+   * Inserts a bill under the next free number of the series. When another
+   * import takes the same number first, the unique index on `bill_number`
+   * rejects the insert and the number is recomputed. Gaps are reported but
+   * never refilled, so numbers stay in issue order.
+   */
+  static async allocate<T>(
+    series: BillNumberSeries,
+    billDate: string,
+    insert: (billNumber: string) => PromiseLike<InsertResult<T>>
+  ): Promise<{ billNumber: string; data: T }> {
+    const fy = financialYear(billDate);
+    for (let attempt = 0; attempt < MAX_ALLOCATION_ATTEMPTS; attempt++) {
+      const highest = await this.highestIssued(series, fy);
+      const next = this.format(series, fy, highest + 1);
+      const { data, error } = await insert(next);
+      if (!error) return { billNumber: next, data: data as T };
+      if (error.code !== UNIQUE_VIOLATION) throw new Error(error.message);
+    }
+    throw new Error(`Could not allocate a bill number for FY ${fy} after ${MAX_ALLOCATION_ATTEMPTS} attempts; please retry`);
+  }
+
+  /** Every number of the series in the year, read page by page. */
+  private static async issuedNumbers(series: BillNumberSeries, fy: string): Promise<string[]> {
+    if (!supabase) return [];
+    const numbers: string[] = [];
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from('bills')
+        .select('bill_number')
+        .like('bill_number', this.likePattern(series, fy))
+        .order('bill_number', { ascending: true })
+        .range(from, from + PAGE_SIZE - 1);
+      if (error) throw new Error(error.message);
+      const rows = (data as Array<{ bill_number: string | null }>) || [];
+      numbers.push(...rows.map(row => row.bill_number || ''));
+      if (rows.length < PAGE_SIZE) return numbers;
+    }
+  }
+
+  /**
+   * Sequence of the highest number issued. Compared as numbers, not as text:
+   * once the sequence outgrows its padding, "…/10000" sorts below "…/9999".
+   */
+  private static async highestIssued(series: BillNumberSeries, fy: string): Promise<number> {
+    return (await this.issuedNumbers(series, fy))
+      .reduce((highest, number) => Math.max(highest, this.sequenceOf(number, series, fy) ?? 0), 0);
+  }
+
+  private static likePattern(series: BillNumberSeries, fy: string): string {
+    const [before, after] = series.pattern.replace('{fy}', fy).split('{seq}');
+    return `${escapeLike(before)}%${escapeLike(after)}`;
+  }
+
+  private static readSeries(): Partial<Record<InvoiceDirection, BillNumberSeries>> {
+    try {
+      const raw = typeof localStorage !== 'undefined' ? localStorage.getItem(SERIES_STORAGE_KEY) : null;
+      return raw ? JSON.parse(raw) : {};
+    } catch {
+      return {};
+    }
+  }
+}
@@ -0,0 +1,95 @@
+import { CurrencyDetection, ExchangeRate } from '../types/invoice';
+
+const RATES_STORAGE_KEY = 'exchange-rates';
+
+/** Currency of the books; bills are stored in it alongside the invoice's own amounts. */
+export const BASE_CURRENCY = 'INR';
+
+interface CurrencySpec {
+  code: string;
+  symbol: string;
+  name: string;
+  marks: RegExp; // Symbols, ISO codes and words that identify the currency
+}
+
+export const CURRENCIES: CurrencySpec[] = [
+  { code: 'INR', symbol: '₹', name: 'Indian rupee', marks: /₹|\bRs\.?(?=\s*\d)|\bINR\b|\brupees?\b|रुपये|रुपया|रु\./gi },
+  { code: 'USD', symbol: '$', name: 'US dollar', marks: /US\$|(?<![A-Za-z])\$(?=\s*\d)|\bUSD\b|\b(?:US )?dollars?\b/gi },
+  { code: 'EUR', symbol: '€', name: 'Euro', marks: /€|\bEUR\b|\beuros?\b/gi },
+  { code: 'GBP', symbol: '£', name: 'Pound sterling', marks: /£|\bGBP\b|\bpounds? sterling\b/gi },
+  { code: 'AED', symbol: 'AED ', name: 'UAE dirham', marks: /\bAED\b|\bdirhams?\b/gi },
+  { code: 'SGD', symbol: 'S$', name: 'Singapore dollar', marks: /S\$|\bSGD\b/gi }
+];
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+/** Numeric value of an amount as printed, e.g. "Rs. 1,00,000.50" or "$1,200". */
+export function parseAmount(text: string): number {
+  return parseFloat(text.replace(/^[^\d]+/, '').replace(/,/g, ''));
+}
+
+export class CurrencyDetector {
+  /** The currency whose marks occur most often; the base currency wins ties and empty text. */
+  static detect(text: string): CurrencyDetection {
+    const counts = CURRENCIES.map(spec => {
+      const matches = text.match(spec.marks) || [];
+      return { code: spec.code, count: matches.length, evidence: [...new Set(matches.map(m => m.trim()))] };
+    });
+    const best = counts.reduce((top, candidate) =>
+      candidate.count > top.count || (candidate.count === top.count && candidate.code === BASE_CURRENCY) ? candidate : top
+    );
+    if (best.count === 0) return { currency: BASE_CURRENCY, assumed: true, evidence: [] };
+    return { currency: best.code, assumed: false, evidence: best.evidence };
+  }
+
+  /** ISO code for a code, symbol or currency word, e.g. "usd", "$" or "Rs." */
+  static normalize(value?: string): string | undefined {
+    const text = (value || '').trim();
+    if (!text || text.toUpperCase() === 'N/A') return undefined;
+    if (/^[A-Za-z]{3}$/.test(text)) return text.toUpperCase();
+    // Symbols only count next to an amount, so give them one
+    const detected = this.detect(`${text} 1`);
+    return detected.assumed ? undefined : detected.currency;
+  }
+
+  static symbol(code: string): string {
+    return CURRENCIES.find(spec => spec.code === code)?.symbol ?? `${code} `;
+  }
+}
+
+export class ExchangeRateTable {
+  /** Rates kept on this device, newest first per currency. */
+  static all(): ExchangeRate[] {
+    try {
+      const raw = typeof localStorage !== 'undefined' ? localStorage.getItem(RATES_STORAGE_KEY) : null;
+      const rates: ExchangeRate[] = raw ? JSON.parse(raw) : [];
+      return rates.sort((a, b) => a.currency.localeCompare(b.currency) || b.date.localeCompare(a.date));
+    } catch {
+      return [];
+    }
+  }
+
+  /** Adds a rate, replacing any rate of the same currency and date. */
+  static save(rate: ExchangeRate): void {
+    if (!(rate.rate > 0)) throw new Error('The exchange rate must be a positive number');
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(rate.date)) throw new Error('The rate date must be in YYYY-MM-DD format');
+    const currency = rate.currency.toUpperCase();
+    const rates = this.all().filter(r => !(r.currency === currency && r.date === rate.date));
+    rates.push({ currency, date: rate.date, rate: rate.rate });
+    localStorage.setItem(RATES_STORAGE_KEY, JSON.stringify(rates));
+  }
+
+  static remove(currency: string, date: string): void {
+    localStorage.setItem(RATES_STORAGE_KEY, JSON.stringify(this.all().filter(r => !(r.currency === currency && r.date === date))));
+  }
+
+  /** The latest rate dated on or before `date`; null when the table has none. */
+  static rateOn(currency: string, date: string): ExchangeRate | null {
+    if (currency === BASE_CURRENCY) return { currency, date, rate: 1 };
+    return this.all().find(r => r.currency === currency && r.date <= date) ?? null;
+  }
+
+  static convert(amount: number, rate: ExchangeRate): number {
+    return round2(amount * rate.rate);
+  }
+}
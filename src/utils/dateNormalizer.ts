@@ -0,0 +1,150 @@
+import { NormalizedDate, SupplierProfile } from '../types/invoice';
+
+/** Readings below this confidence are flagged for review. */
+export const LOW_DATE_CONFIDENCE = 0.7;
+
+const DEFAULT_MAX_AGE_MONTHS = 12;
+
+const MONTHS: Array<[number, string[]]> = [
+  [1, ['jan', 'january', 'जनवरी']],
+  [2, ['feb', 'february', 'फरवरी', 'फ़रवरी']],
+  [3, ['mar', 'march', 'मार्च']],
+  [4, ['apr', 'april', 'अप्रैल', 'अप्रेल']],
+  [5, ['may', 'मई']],
+  [6, ['jun', 'june', 'जून']],
+  [7, ['jul', 'july', 'जुलाई']],
+  [8, ['aug', 'august', 'अगस्त']],
+  [9, ['sep', 'sept', 'september', 'सितंबर', 'सितम्बर']],
+  [10, ['oct', 'october', 'अक्टूबर', 'अक्तूबर']],
+  [11, ['nov', 'november', 'नवंबर', 'नवम्बर']],
+  [12, ['dec', 'december', 'दिसंबर', 'दिसम्बर']]
+];
+
+// Nukta is spelled inconsistently (फ़रवरी/फरवरी)
+const normalizeWord = (word: string) => word.toLowerCase().replace(/़/g, '').replace(/\.$/, '');
+
+const MONTH_LOOKUP = new Map<string, number>(
+  MONTHS.flatMap(([month, names]) => names.map(name => [normalizeWord(name), month] as [string, number]))
+);
+
+// Full names, abbreviations and misspelt tails ("Octo") all resolve by their first three letters
+const monthOf = (word: string) => MONTH_LOOKUP.get(normalizeWord(word)) ?? MONTH_LOOKUP.get(normalizeWord(word).slice(0, 3));
+
+const MONTH_WORD = MONTHS.flatMap(([, names]) => names).sort((a, b) => b.length - a.length).join('|');
+
+/** Dates written with a month name, e.g. "15 अक्टूबर 2025", "15-Oct-25" or "October 15, 2025". */
+export const MONTH_NAME_DATE_PATTERN = new RegExp(
+  `[0-9०-९]{1,2}(?:st|nd|rd|th)?[\\s.-]*(?:${MONTH_WORD})[a-z.]*[\\s,.-]*[0-9०-९]{2,4}` +
+  `|(?:${MONTH_WORD})[a-z.]*\\s+[0-9०-९]{1,2}(?:st|nd|rd|th)?,?\\s+[0-9०-९]{4}`,
+  'i'
+);
+
+const toAsciiDigits = (text: string) => text.replace(/[०-९]/g, d => String(d.charCodeAt(0) - '०'.charCodeAt(0)));
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+const daysInMonth = (year: number, month: number) => new Date(Date.UTC(year, month, 0)).getUTCDate();
+
+const toIso = (year: number, month: number, day: number): string | null =>
+  month >= 1 && month <= 12 && day >= 1 && day <= daysInMonth(year, month) ? `${year}-${pad(month)}-${pad(day)}` : null;
+
+const localIso = (date: Date) => `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+/** Indian financial year (April to March) of an ISO date: 2026-10-18 → "26-27". */
+export function financialYear(isoDate: string): string {
+  const [year, month] = isoDate.split('-').map(Number);
+  const start = month >= 4 ? year : year - 1;
+  const twoDigits = (value: number) => String(value % 100).padStart(2, '0');
+  return `${twoDigits(start)}-${twoDigits(start + 1)}`;
+}
+
+interface NormalizeOptions {
+  dateFormat?: SupplierProfile['dateFormat']; // How the supplier prints dates, when known
+  today?: Date;
+  maxAgeMonths?: number;
+}
+
+export class InvoiceDateNormalizer {
+  /**
+   * Reads an invoice date into YYYY-MM-DD. Numeric dates that work both as
+   * dd/mm and mm/dd follow the supplier's known format, then whichever
+   * reading is plausible (not in the future, not older than `maxAgeMonths`),
+   * then the Indian dd/mm convention with a low confidence.
+   */
+  static normalize(raw: string | undefined, options: NormalizeOptions = {}): NormalizedDate | null {
+    const original = (raw || '').trim();
+    if (!original || original.toUpperCase() === 'N/A') return null;
+
+    const today = options.today ?? new Date();
+    const maxAge = options.maxAgeMonths ?? DEFAULT_MAX_AGE_MONTHS;
+    const earliest = localIso(new Date(today.getFullYear(), today.getMonth() - maxAge, today.getDate()));
+    const latest = localIso(today);
+    const isPlausible = (iso: string) => iso >= earliest && iso <= latest;
+
+    const text = toAsciiDigits(original).replace(/़/g, '');
+    const warnings: string[] = [];
+    let iso: string | null = null;
+    let confidence = 0;
+
+    const isoMatch = text.match(/(\d{4})[/.-](\d{1,2})[/.-](\d{1,2})/);
+    const numericMatch = text.match(/(\d{1,2})[/.-](\d{1,2})[/.-](\d{2,4})/);
+    const namedMatch = text.match(MONTH_NAME_DATE_PATTERN);
+
+    if (isoMatch) {
+      iso = toIso(Number(isoMatch[1]), Number(isoMatch[2]), Number(isoMatch[3]));
+      confidence = 0.95;
+    } else if (namedMatch) {
+      const parts = namedMatch[0].split(/[\s,.-]+/).filter(Boolean);
+      const monthIndex = parts.findIndex(part => monthOf(part) !== undefined);
+      const month = monthOf(parts[monthIndex]);
+      const numbers = parts.filter((_, idx) => idx !== monthIndex).map(part => parseInt(part, 10));
+      const [day, year] = monthIndex === 0 ? numbers : [numbers[0], numbers[numbers.length - 1]];
+      if (month && day && year) {
+        iso = toIso(this.expandYear(year, today), month, day);
+        confidence = 0.95;
+      }
+    } else if (numericMatch) {
+      const [first, second] = [Number(numericMatch[1]), Number(numericMatch[2])];
+      const year = this.expandYear(Number(numericMatch[3]), today);
+      const dayFirst = toIso(year, second, first);
+      const monthFirst = toIso(year, first, second);
+
+      if (dayFirst && monthFirst && dayFirst !== monthFirst) {
+        if (options.dateFormat === 'DD/MM/YYYY' || options.dateFormat === 'MM/DD/YYYY') {
+          iso = options.dateFormat === 'DD/MM/YYYY' ? dayFirst : monthFirst;
+          confidence = 0.85;
+        } else if (isPlausible(dayFirst) !== isPlausible(monthFirst)) {
+          iso = isPlausible(dayFirst) ? dayFirst : monthFirst;
+          confidence = 0.75;
+        } else {
+          iso = dayFirst;
+          confidence = 0.5;
+          warnings.push(`"${numericMatch[0]}" could also be read as ${monthFirst} (month first)`);
+        }
+      } else {
+        iso = dayFirst || monthFirst;
+        confidence = 0.9;
+      }
+      if (numericMatch[3].length === 2) confidence -= 0.05;
+    }
+
+    if (!iso) return null;
+
+    if (iso > latest) {
+      warnings.push(`${iso} is in the future`);
+      confidence = Math.min(confidence, 0.5);
+    } else if (iso < earliest) {
+      warnings.push(`${iso} is more than ${maxAge} months old`);
+      confidence = Math.min(confidence, 0.5);
+    }
+
+    return { iso, financialYear: financialYear(iso), original, confidence: Math.round(confidence * 100) / 100, warnings };
+  }
+
+  /** Two-digit years are this century unless that would be more than a year ahead. */
+  private static expandYear(year: number, today: Date): number {
+    if (year >= 100) return year;
+    const candidate = 2000 + year;
+    return candidate > today.getFullYear() + 1 ? candidate - 100 : candidate;
+  }
+}
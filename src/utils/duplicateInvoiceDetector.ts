@@ -0,0 +1,176 @@
+import { DuplicateCandidate, DuplicateCheckInput, DuplicateCheckLine } from '../types/invoice';
+import { supabase } from './supabaseClient';
+
+export interface ExistingBill {
+  id: string;
+  bill_number: string;
+  bill_date: string;
+  total_amount: number;
+  supplier_gstin?: string | null;
+  supplier_invoice_number?: string | null;
+  supplier_invoice_key?: string | null;
+}
+
+export interface ExistingBillItem {
+  bill_id: string;
+  product_name: string;
+  quantity: number;
+  rate: number;
+}
+
+const DATE_WINDOW_DAYS = 3;
+const TOTAL_TOLERANCE = 0.01; // 1% of the grand total
+const CANDIDATE_THRESHOLD = 0.45;
+const MAX_CANDIDATES = 5;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const shiftDate = (isoDate: string, days: number) =>
+  new Date(new Date(isoDate).getTime() + days * DAY_MS).toISOString().split('T')[0];
+
+export class DuplicateInvoiceDetector {
+  /**
+   * Looks for bills that were already imported from the same invoice: an exact
+   * supplier GSTIN + invoice number match, or a bill with a nearby date, a
+   * similar grand total and overlapping line items.
+   */
+  static async findCandidates(input: DuplicateCheckInput): Promise<DuplicateCandidate[]> {
+    if (!supabase) return [];
+
+    const bills = new Map<string, ExistingBill>();
+    const gstin = this.normalizeGstin(input.supplierGstin);
+    const invoiceNumber = this.invoiceKey(input.invoiceNumber);
+
+    if (gstin && invoiceNumber) {
+      // Older schemas lack the supplier columns; treat that as "no exact match"
+      const { data, error } = await supabase
+        .from('bills')
+        .select('*')
+        .eq('supplier_gstin', gstin)
+        .eq('supplier_invoice_key', invoiceNumber);
+      if (!error) (data as ExistingBill[] || []).forEach(bill => bills.set(bill.id, bill));
+    }
+
+    const margin = Math.max(1, input.totalAmount * TOTAL_TOLERANCE);
+    const { data: nearby, error: nearbyError } = await supabase
+      .from('bills')
+      .select('*')
+      .gte('bill_date', shiftDate(input.billDate, -DATE_WINDOW_DAYS))
+      .lte('bill_date', shiftDate(input.billDate, DATE_WINDOW_DAYS))
+      .gte('total_amount', input.totalAmount - margin)
+      .lte('total_amount', input.totalAmount + margin)
+      .limit(50);
+    if (nearbyError) throw nearbyError;
+    (nearby as ExistingBill[] || []).forEach(bill => bills.set(bill.id, bill));
+
+    if (bills.size === 0) return [];
+
+    const { data: items, error: itemsError } = await supabase
+      .from('bill_items')
+      .select('bill_id, product_name, quantity, rate')
+      .in('bill_id', [...bills.keys()]);
+    if (itemsError) throw itemsError;
+
+    const itemsByBill = new Map<string, ExistingBillItem[]>();
+    (items as ExistingBillItem[] || []).forEach(item => {
+      itemsByBill.set(item.bill_id, [...(itemsByBill.get(item.bill_id) || []), item]);
+    });
+
+    return [...bills.values()]
+      .map(bill => this.score(input, bill, itemsByBill.get(bill.id) || []))
+      .filter(candidate => candidate.exactMatch || candidate.score >= CANDIDATE_THRESHOLD)
+      .sort((a, b) => Number(b.exactMatch) - Number(a.exactMatch) || b.score - a.score)
+      .slice(0, MAX_CANDIDATES);
+  }
+
+  /** Scores one existing bill against the invoice about to be imported. */
+  static score(input: DuplicateCheckInput, bill: ExistingBill, billItems: ExistingBillItem[]): DuplicateCandidate {
+    const reasons: string[] = [];
+    let score = 0;
+
+    const gstin = this.normalizeGstin(input.supplierGstin);
+    const invoiceNumber = this.invoiceKey(input.invoiceNumber);
+    const exactMatch = Boolean(
+      gstin && invoiceNumber &&
+      this.normalizeGstin(bill.supplier_gstin || '') === gstin &&
+      (bill.supplier_invoice_key || this.invoiceKey(bill.supplier_invoice_number || '')) === invoiceNumber
+    );
+    if (exactMatch) {
+      score += 0.6;
+      reasons.push(`Same supplier GSTIN and invoice number (${input.invoiceNumber})`);
+    }
+
+    const dayGap = Math.abs(new Date(bill.bill_date).getTime() - new Date(input.billDate).getTime()) / DAY_MS;
+    if (dayGap < 1) {
+      score += 0.15;
+      reasons.push('Same bill date');
+    } else if (dayGap <= DATE_WINDOW_DAYS) {
+      score += 0.08;
+      reasons.push(`Bill date ${Math.round(dayGap)} day(s) apart`);
+    }
+
+    const totalGap = Math.abs(Number(bill.total_amount) - input.totalAmount);
+    if (totalGap <= 0.05) {
+      score += 0.15;
+      reasons.push('Same grand total');
+    } else if (totalGap <= Math.max(1, input.totalAmount * TOTAL_TOLERANCE)) {
+      score += 0.08;
+      reasons.push(`Grand total differs by ₹${totalGap.toFixed(2)}`);
+    }
+
+    const itemSimilarity = this.itemSimilarity(
+      input.items,
+      billItems.map(item => ({ name: item.product_name, quantity: Number(item.quantity), rate: Number(item.rate) }))
+    );
+    if (itemSimilarity > 0) {
+      score += 0.2 * itemSimilarity;
+      reasons.push(itemSimilarity === 1 ? 'Identical line items' : `${Math.round(itemSimilarity * 100)}% of line items match`);
+    }
+
+    return {
+      billId: bill.id,
+      billNumber: bill.bill_number,
+      billDate: bill.bill_date,
+      totalAmount: Number(bill.total_amount),
+      score: Math.round(Math.min(1, score) * 100) / 100,
+      exactMatch,
+      itemSimilarity,
+      reasons
+    };
+  }
+
+  /** Order-independent fingerprint of the line items, stored on the bill for later comparisons. */
+  static fingerprint(items: DuplicateCheckLine[]): string {
+    return items.map(item => this.lineKey(item)).sort().join(';');
+  }
+
+  /** Jaccard similarity of the two invoices' line keys. */
+  static itemSimilarity(a: DuplicateCheckLine[], b: DuplicateCheckLine[]): number {
+    if (a.length === 0 || b.length === 0) return 0;
+    const left = new Set(a.map(item => this.lineKey(item)));
+    const right = new Set(b.map(item => this.lineKey(item)));
+    const shared = [...left].filter(key => right.has(key)).length;
+    return Math.round((shared / (left.size + right.size - shared)) * 100) / 100;
+  }
+
+  /**
+   * Supplier invoice number reduced to its letters and digits without leading
+   * zeros: "INV/0042", "inv-42" and "INV 42" all refer to the same document.
+   * Stored on the bill so the exact-match lookup can filter on it.
+   */
+  static invoiceKey(invoiceNumber?: string): string {
+    return (invoiceNumber || '')
+      .toUpperCase()
+      .replace(/[^0-9A-Z]/g, '')
+      .replace(/(\D|^)0+(?=\d)/g, '$1');
+  }
+
+  private static lineKey(item: DuplicateCheckLine): string {
+    const name = item.name.toLowerCase().replace(/[^\p{L}\p{N}]/gu, '');
+    return `${name}|${Number(item.quantity).toFixed(2)}|${Number(item.rate).toFixed(2)}`;
+  }
+
+  private static normalizeGstin(gstin?: string): string {
+    return (gstin || '').toUpperCase().replace(/[^0-9A-Z]/g, '');
+  }
+}
@@ -0,0 +1,177 @@
+import { EInvoiceCheck, EInvoiceMismatch, EInvoicePayload, InvoiceProvenance } from '../types/invoice';
+import { GstinValidator } from './gstinValidator';
+import { InvoiceDateNormalizer } from './dateNormalizer';
+import { isPdfFile, PdfInvoiceReader } from './pdfInvoice';
+
+// Totals in the QR are to the rupee on some portals; smaller differences are rounding
+const TOTAL_TOLERANCE = 1;
+
+// The browser's Shape Detection API; not yet in the DOM typings
+interface DetectedBarcode {
+  rawValue: string;
+}
+
+type BarcodeDetectorConstructor = new (options?: { formats: string[] }) => {
+  detect(image: ImageBitmapSource): Promise<DetectedBarcode[]>;
+};
+
+interface InvoiceFields {
+  gstNumber?: string;
+  buyerGstin?: string;
+  invoiceNumber?: string;
+  date?: string;
+  grandTotal?: number;
+  items: unknown[];
+  provenance?: InvoiceProvenance;
+  eInvoice?: EInvoiceCheck;
+}
+
+const base64UrlDecode = (segment: string): string => {
+  const base64 = segment.replace(/-/g, '+').replace(/_/g, '/').padEnd(Math.ceil(segment.length / 4) * 4, '=');
+  const bytes = Uint8Array.from(atob(base64), char => char.charCodeAt(0));
+  return new TextDecoder().decode(bytes);
+};
+
+const asGstin = (value: unknown): string | undefined => {
+  const gstin = GstinValidator.normalize(String(value ?? ''));
+  return GstinValidator.isValid(gstin) ? gstin : undefined; // Unregistered buyers are "URP"
+};
+
+const sameDocumentNumber = (a: string, b: string) =>
+  a.toUpperCase().replace(/[^0-9A-Z]/g, '') === b.toUpperCase().replace(/[^0-9A-Z]/g, '');
+
+export class EInvoiceQr {
+  /** Whether this browser can find QR codes in images. */
+  static isSupported(): boolean {
+    return typeof (globalThis as { BarcodeDetector?: unknown }).BarcodeDetector === 'function';
+  }
+
+  /**
+   * Finds the e-invoice QR on the image (or the first page of a PDF) and
+   * decodes it. Null when there is none or the browser cannot detect QR codes.
+   */
+  static async scan(file: File): Promise<EInvoicePayload | null> {
+    const Detector = (globalThis as { BarcodeDetector?: BarcodeDetectorConstructor }).BarcodeDetector;
+    if (!Detector) return null;
+
+    const image = isPdfFile(file) ? await PdfInvoiceReader.renderFirstPage(file) : file;
+    const bitmap = await createImageBitmap(image, { imageOrientation: 'from-image' });
+    try {
+      const codes = await new Detector({ formats: ['qr_code'] }).detect(bitmap);
+      for (const code of codes) {
+        const payload = this.decode(code.rawValue);
+        if (payload) return payload;
+      }
+      return null;
+    } finally {
+      bitmap.close();
+    }
+  }
+
+  /**
+   * Reads the signed QR text: a JWT whose payload carries the invoice details
+   * as a JSON string in `data`. The NIC signature is not verified here.
+   */
+  static decode(token: string): EInvoicePayload | null {
+    const segments = token.trim().split('.');
+    if (segments.length !== 3) return null;
+
+    let data: Record<string, unknown>;
+    try {
+      const claims = JSON.parse(base64UrlDecode(segments[1]));
+      data = typeof claims.data === 'string' ? JSON.parse(claims.data) : claims.data;
+    } catch {
+      return null;
+    }
+    if (!data || typeof data !== 'object') return null;
+
+    const sellerGstin = asGstin(data.SellerGstin);
+    const documentDate = InvoiceDateNormalizer.normalize(String(data.DocDt ?? ''), { dateFormat: 'DD/MM/YYYY' })?.iso;
+    const totalValue = Number(data.TotInvVal);
+    if (!sellerGstin || !data.DocNo || !documentDate || !Number.isFinite(totalValue)) return null;
+
+    return {
+      irn: String(data.Irn ?? ''),
+      irnDate: data.IrnDt ? String(data.IrnDt) : undefined,
+      sellerGstin,
+      buyerGstin: asGstin(data.BuyerGstin),
+      documentNumber: String(data.DocNo),
+      documentType: data.DocTyp ? String(data.DocTyp) : undefined,
+      documentDate,
+      totalValue,
+      itemCount: data.ItemCnt !== undefined ? Number(data.ItemCnt) : undefined,
+      mainHsnCode: data.MainHsnCode ? String(data.MainHsnCode) : undefined
+    };
+  }
+
+  /** Extracted values that disagree with the QR. Values the extraction missed are not mismatches. */
+  static compare(invoice: InvoiceFields, payload: EInvoicePayload): EInvoiceMismatch[] {
+    const mismatches: EInvoiceMismatch[] = [];
+    const known = (field: string, value: unknown) =>
+      value !== undefined && value !== '' && value !== 'N/A' && invoice.provenance?.[field]?.source !== 'imputed';
+
+    if (known('gstNumber', invoice.gstNumber) && GstinValidator.normalize(invoice.gstNumber!) !== payload.sellerGstin) {
+      mismatches.push({ field: 'gstNumber', label: 'Seller GSTIN', qr: payload.sellerGstin, extracted: invoice.gstNumber! });
+    }
+    if (payload.buyerGstin && known('buyerGstin', invoice.buyerGstin)
+      && GstinValidator.normalize(invoice.buyerGstin!) !== payload.buyerGstin) {
+      mismatches.push({ field: 'buyerGstin', label: 'Buyer GSTIN', qr: payload.buyerGstin, extracted: invoice.buyerGstin! });
+    }
+    if (known('invoiceNumber', invoice.invoiceNumber) && !sameDocumentNumber(invoice.invoiceNumber!, payload.documentNumber)) {
+      mismatches.push({ field: 'invoiceNumber', label: 'Invoice number', qr: payload.documentNumber, extracted: invoice.invoiceNumber! });
+    }
+    // A printed 03/04 agrees with the QR when either reading of it does
+    const dateReadings = known('date', invoice.date)
+      ? (['DD/MM/YYYY', 'MM/DD/YYYY'] as const).map(dateFormat => InvoiceDateNormalizer.normalize(invoice.date, { dateFormat })?.iso)
+      : [];
+    if (dateReadings[0] && !dateReadings.includes(payload.documentDate)) {
+      mismatches.push({ field: 'date', label: 'Invoice date', qr: payload.documentDate, extracted: dateReadings[0] });
+    }
+    if (known('grandTotal', invoice.grandTotal) && invoice.grandTotal !== 0
+      && Math.abs(invoice.grandTotal! - payload.totalValue) > TOTAL_TOLERANCE) {
+      mismatches.push({ field: 'grandTotal', label: 'Invoice value', qr: payload.totalValue.toFixed(2), extracted: invoice.grandTotal!.toFixed(2) });
+    }
+    if (payload.itemCount && invoice.items.length > 0 && invoice.items.length !== payload.itemCount) {
+      mismatches.push({ field: 'items', label: 'Line items', qr: String(payload.itemCount), extracted: String(invoice.items.length) });
+    }
+    return mismatches;
+  }
+
+  /**
+   * Replaces the extracted seller/buyer GSTIN, number, date and total with
+   * the QR values, which are signed by the invoice registration portal, and
+   * records the disagreements for review.
+   */
+  static apply<T extends InvoiceFields>(invoice: T, payload: EInvoicePayload): T {
+    const mismatches = this.compare(invoice, payload);
+    const provenance: InvoiceProvenance = { ...invoice.provenance };
+    const overrides: Array<[keyof InvoiceFields & string, string | number | undefined]> = [
+      ['gstNumber', payload.sellerGstin],
+      ['buyerGstin', payload.buyerGstin],
+      ['invoiceNumber', payload.documentNumber],
+      ['date', payload.documentDate],
+      ['grandTotal', payload.totalValue]
+    ];
+    overrides.forEach(([field, value]) => {
+      if (value === undefined) return;
+      const mismatch = mismatches.find(m => m.field === field);
+      provenance[field] = {
+        source: 'qr',
+        confidence: 1,
+        agreement: mismatch ? 'disagree' : 'agree',
+        ocrValue: mismatch?.extracted
+      };
+    });
+
+    return {
+      ...invoice,
+      gstNumber: payload.sellerGstin,
+      buyerGstin: payload.buyerGstin ?? invoice.buyerGstin,
+      invoiceNumber: payload.documentNumber,
+      date: payload.documentDate,
+      grandTotal: payload.totalValue,
+      provenance,
+      eInvoice: { payload, mismatches }
+    };
+  }
+}
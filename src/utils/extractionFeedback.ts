@@ -0,0 +1,235 @@
+import {
+  AccuracyPeriod,
+  ConfirmedInvoice,
+  ExtractionCorrection,
+  ExtractionMetrics,
+  ExtractionReview,
+  FieldAccuracy,
+  InvoiceProvenance,
+  OcrResponse,
+  SupplierAccuracy
+} from '../types/invoice';
+import { InvoiceStructuredItem } from './sonar';
+import { GstCalculator } from './gstTax';
+
+const STORAGE_KEY = 'extraction-feedback';
+const MAX_REVIEWS = 300;
+const MAX_REVIEWS_WITH_OCR = 50; // OCR payloads are large; older reviews keep only their corrections
+
+/** The extraction as it reached the review modal. */
+export interface ReviewedExtraction {
+  companyName?: string;
+  gstNumber?: string;
+  grandTotal?: number;
+  items: Array<Partial<InvoiceStructuredItem>>;
+  provenance?: InvoiceProvenance;
+  raw?: OcrResponse;
+  fileName?: string;
+}
+
+/** Confirmed values plus, per line, the index of the extracted line it came from. */
+export type ReviewOutcome = Omit<ConfirmedInvoice, 'items'> & {
+  items: Array<ConfirmedInvoice['items'][number] & { sourceIndex?: number }>;
+};
+
+const ITEM_FIELDS = ['name', 'quantity', 'rate', 'gstRate', 'hsnSac'] as const;
+
+const normalizeText = (value: string) => value.toLowerCase().replace(/\s+/g, ' ').trim();
+
+const display = (value: unknown) =>
+  value === undefined || value === null || value === 'N/A' ? '' : String(value);
+
+const sameValue = (before: unknown, after: unknown) => {
+  if (typeof before === 'number' || typeof after === 'number') {
+    return Math.abs(Number(before ?? 0) - Number(after ?? 0)) < 0.005;
+  }
+  return normalizeText(display(before)) === normalizeText(display(after));
+};
+
+const accuracyOf = (checked: number, corrected: number) =>
+  checked > 0 ? Math.max(0, (checked - corrected) / checked) : 1;
+
+const weekOf = (iso: string) => {
+  const date = new Date(iso);
+  const day = (date.getUTCDay() + 6) % 7; // Monday = 0
+  date.setUTCDate(date.getUTCDate() - day);
+  return date.toISOString().split('T')[0];
+};
+
+export class ExtractionFeedback {
+  static all(): ExtractionReview[] {
+    try {
+      const raw = typeof localStorage !== 'undefined' ? localStorage.getItem(STORAGE_KEY) : null;
+      return raw ? JSON.parse(raw) : [];
+    } catch {
+      return [];
+    }
+  }
+
+  static clear(): void {
+    localStorage.removeItem(STORAGE_KEY);
+  }
+
+  /**
+   * Compares the extraction with what the reviewer imported. Every field the
+   * modal lets them edit counts as checked; changed ones become corrections
+   * tagged with the extraction source of the original value.
+   */
+  static diff(extracted: ReviewedExtraction, outcome: ReviewOutcome): Pick<ExtractionReview, 'fieldsChecked' | 'corrections'> {
+    const provenance = extracted.provenance || {};
+    const fieldsChecked: Record<string, number> = {};
+    const corrections: ExtractionCorrection[] = [];
+
+    const check = (field: string, path: string, before: unknown, after: unknown) => {
+      fieldsChecked[field] = (fieldsChecked[field] || 0) + 1;
+      if (!sameValue(before, after)) {
+        corrections.push({ field, before: display(before), after: display(after), source: provenance[path]?.source });
+      }
+    };
+
+    check('companyName', 'companyName', extracted.companyName, outcome.companyName);
+    check('gstNumber', 'gstNumber', extracted.gstNumber, outcome.gstNumber);
+    if (extracted.grandTotal !== undefined) check('grandTotal', 'grandTotal', extracted.grandTotal, outcome.grandTotal);
+
+    const kept = new Set<number>();
+    outcome.items.forEach(item => {
+      const source = item.sourceIndex !== undefined ? extracted.items[item.sourceIndex] : undefined;
+      if (!source || item.sourceIndex === undefined) {
+        check('items[]', 'items', '', item.name);
+        return;
+      }
+      kept.add(item.sourceIndex);
+      fieldsChecked['items[]'] = (fieldsChecked['items[]'] || 0) + 1;
+      ITEM_FIELDS.forEach(field => {
+        const before = field === 'gstRate' ? GstCalculator.resolveRate(source as InvoiceStructuredItem) : source[field];
+        check(`items[].${field}`, `items[${item.sourceIndex}].${field}`, before, item[field]);
+      });
+    });
+    extracted.items.forEach((item, index) => {
+      if (!kept.has(index)) check('items[]', `items[${index}].name`, item.name, '');
+    });
+
+    return { fieldsChecked, corrections };
+  }
+
+  /** Stores the review of one imported invoice. */
+  static record(extracted: ReviewedExtraction, outcome: ReviewOutcome, supplierName: string): ExtractionReview {
+    const review: ExtractionReview = {
+      id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      reviewedAt: new Date().toISOString(),
+      fileName: extracted.fileName,
+      supplierGstin: outcome.gstNumber || undefined,
+      supplierName,
+      ...this.diff(extracted, outcome),
+      ocr: extracted.raw,
+      confirmed: {
+        ...outcome,
+        items: outcome.items.map(item => ({
+          name: item.name,
+          quantity: item.quantity,
+          rate: item.rate,
+          gstRate: item.gstRate,
+          hsnSac: item.hsnSac
+        }))
+      }
+    };
+
+    const reviews = [review, ...this.all()].slice(0, MAX_REVIEWS)
+      .map((r, index) => (index < MAX_REVIEWS_WITH_OCR ? r : { ...r, ocr: undefined }));
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(reviews));
+    } catch {
+      // Storage full: keep OCR only for the newest review
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(reviews.map((r, index) => (index === 0 ? r : { ...r, ocr: undefined }))));
+    }
+    return review;
+  }
+
+  static metrics(reviews: ExtractionReview[] = this.all()): ExtractionMetrics {
+    const fieldTotals = new Map<string, { checked: number; corrected: number }>();
+    const supplierTotals = new Map<string, SupplierAccuracy>();
+    const periods = new Map<string, AccuracyPeriod>();
+    const sources: ExtractionMetrics['sources'] = {};
+    let checked = 0;
+    let corrected = 0;
+
+    reviews.forEach(review => {
+      const correctedByField = review.corrections.reduce<Record<string, number>>((acc, c) => {
+        acc[c.field] = (acc[c.field] || 0) + 1;
+        return acc;
+      }, {});
+      const reviewChecked = Object.values(review.fieldsChecked).reduce((sum, n) => sum + n, 0);
+
+      const key = review.supplierGstin || normalizeText(review.supplierName);
+      const supplier = supplierTotals.get(key) || {
+        gstin: review.supplierGstin, name: review.supplierName, invoices: 0, checked: 0, corrected: 0, accuracy: 1
+      };
+      supplier.invoices += 1;
+      supplier.checked += reviewChecked;
+      supplier.corrected += review.corrections.length;
+      supplierTotals.set(key, supplier);
+
+      const periodKey = weekOf(review.reviewedAt);
+      const period = periods.get(periodKey) || { period: periodKey, fields: {}, checked: 0, corrected: 0 };
+
+      Object.entries(review.fieldsChecked).forEach(([field, count]) => {
+        const fixes = correctedByField[field] || 0;
+        const total = fieldTotals.get(field) || { checked: 0, corrected: 0 };
+        total.checked += count;
+        total.corrected += fixes;
+        fieldTotals.set(field, total);
+
+        const inPeriod = period.fields[field] || { checked: 0, corrected: 0 };
+        inPeriod.checked += count;
+        inPeriod.corrected += fixes;
+        period.fields[field] = inPeriod;
+      });
+      period.checked += reviewChecked;
+      period.corrected += review.corrections.length;
+      periods.set(periodKey, period);
+
+      review.corrections.forEach(c => {
+        const source = c.source || 'untracked';
+        sources[source] = (sources[source] || 0) + 1;
+      });
+      checked += reviewChecked;
+      corrected += review.corrections.length;
+    });
+
+    const fields: FieldAccuracy[] = [...fieldTotals.entries()]
+      .map(([field, total]) => ({ field, ...total, accuracy: accuracyOf(total.checked, total.corrected) }))
+      .sort((a, b) => b.corrected - a.corrected || a.accuracy - b.accuracy);
+
+    const suppliers = [...supplierTotals.values()]
+      .map(s => ({ ...s, accuracy: accuracyOf(s.checked, s.corrected) }))
+      .sort((a, b) => a.accuracy - b.accuracy || b.invoices - a.invoices);
+
+    return {
+      reviews: reviews.length,
+      overall: { checked, corrected, accuracy: accuracyOf(checked, corrected) },
+      fields,
+      suppliers,
+      sources,
+      timeline: [...periods.values()].sort((a, b) => a.period.localeCompare(b.period))
+    };
+  }
+
+  /**
+   * Reviews that kept their OCR output, as a regression fixture set:
+   * `fixtures` replays through FixtureOcrProvider and `expected` holds the
+   * confirmed invoice for each file.
+   */
+  static exportFixtures(reviews: ExtractionReview[] = this.all()): string {
+    const fixtures: Record<string, OcrResponse> = {};
+    const expected: Record<string, ConfirmedInvoice> = {};
+
+    reviews.filter(review => review.ocr).forEach(review => {
+      const name = review.fileName || `invoice-${review.id}`;
+      const key = fixtures[name] ? `${review.id}-${name}` : name; // The same file reviewed twice
+      fixtures[key] = review.ocr!;
+      expected[key] = review.confirmed;
+    });
+
+    return JSON.stringify({ version: 1, generatedAt: new Date().toISOString(), fixtures, expected }, null, 2);
+  }
+}
@@ -0,0 +1,92 @@
+import { GstBreakdown, GstLineSplit, SupplyType } from '../types/invoice';
+import { InvoiceStructuredItem } from './sonar';
+import { GstinValidator } from './gstinValidator';
+
+export const STANDARD_GST_RATES = [0, 0.1, 0.25, 1, 1.5, 3, 5, 6, 7.5, 12, 14, 18, 28];
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+export class GstCalculator {
+  /** State code from a GSTIN or a bare two-digit code, when it is a known state. */
+  static stateCodeOf(gstinOrCode?: string): string | undefined {
+    if (!gstinOrCode) return undefined;
+    const value = gstinOrCode.trim();
+    if (/^\d{2}$/.test(value)) return GstinValidator.decodeState(value) ? value : undefined;
+    const check = GstinValidator.validate(value);
+    return check.structureValid && check.stateName ? check.stateCode : undefined;
+  }
+
+  /**
+   * Supplies within one state carry CGST + SGST, supplies across states carry
+   * IGST. Unknown parties are assumed intra-state, the common case for local
+   * purchases, and flagged so the reviewer can override.
+   */
+  static determineSupplyType(supplier?: string, buyer?: string): { supplyType: SupplyType; assumed: boolean } {
+    const supplierState = this.stateCodeOf(supplier);
+    const buyerState = this.stateCodeOf(buyer);
+    if (!supplierState || !buyerState) return { supplyType: 'intra', assumed: true };
+    return { supplyType: supplierState === buyerState ? 'intra' : 'inter', assumed: false };
+  }
+
+  static taxableValueOf(item: InvoiceStructuredItem): number {
+    if (item.taxableValue !== undefined && item.taxableValue > 0) return item.taxableValue;
+    if ((item.quantity ?? 0) > 0 && (item.rate ?? 0) > 0) return round2((item.quantity ?? 0) * (item.rate ?? 0));
+    return item.total ?? 0;
+  }
+
+  /** GST rate of a line from, in order: gstRate, printed tax components, or the legacy `gst` value. */
+  static resolveRate(item: InvoiceStructuredItem): number {
+    if (item.gstRate !== undefined && item.gstRate >= 0) return item.gstRate;
+
+    const taxable = this.taxableValueOf(item);
+    const components = (item.cgst ?? 0) + (item.sgst ?? 0) + (item.igst ?? 0);
+    if (components > 0 && taxable > 0) return this.snapRate((components / taxable) * 100);
+
+    const gst = item.gst ?? 0;
+    if (gst <= 0) return 0;
+    if (STANDARD_GST_RATES.includes(gst)) return gst;
+    return taxable > 0 ? this.snapRate((gst / taxable) * 100) : 0;
+  }
+
+  static snapRate(rate: number): number {
+    const nearest = STANDARD_GST_RATES.reduce((best, r) => (Math.abs(r - rate) < Math.abs(best - rate) ? r : best), 0);
+    return Math.abs(nearest - rate) <= 0.5 ? nearest : round2(rate);
+  }
+
+  static splitLine(taxableValue: number, gstRate: number, supplyType: SupplyType): GstLineSplit {
+    const totalTax = round2((taxableValue * gstRate) / 100);
+    if (supplyType === 'inter') {
+      return { taxableValue: round2(taxableValue), gstRate, cgst: 0, sgst: 0, igst: totalTax, totalTax };
+    }
+    const cgst = round2(totalTax / 2);
+    return { taxableValue: round2(taxableValue), gstRate, cgst, sgst: round2(totalTax - cgst), igst: 0, totalTax };
+  }
+
+  static sumSplits(lines: GstLineSplit[]): GstLineSplit {
+    return lines.reduce<GstLineSplit>((acc, line) => ({
+      taxableValue: round2(acc.taxableValue + line.taxableValue),
+      gstRate: 0,
+      cgst: round2(acc.cgst + line.cgst),
+      sgst: round2(acc.sgst + line.sgst),
+      igst: round2(acc.igst + line.igst),
+      totalTax: round2(acc.totalTax + line.totalTax)
+    }), { taxableValue: 0, gstRate: 0, cgst: 0, sgst: 0, igst: 0, totalTax: 0 });
+  }
+
+  static breakdown(
+    items: InvoiceStructuredItem[],
+    supplierGstin?: string,
+    buyerGstinOrState?: string,
+    supplyTypeOverride?: SupplyType
+  ): GstBreakdown {
+    const detected = this.determineSupplyType(supplierGstin, buyerGstinOrState);
+    const supplyType = supplyTypeOverride || detected.supplyType;
+    const lines = items.map(item => this.splitLine(this.taxableValueOf(item), this.resolveRate(item), supplyType));
+    return {
+      supplyType,
+      supplyTypeAssumed: !supplyTypeOverride && detected.assumed,
+      lines,
+      totals: this.sumSplits(lines)
+    };
+  }
+}
@@ -0,0 +1,222 @@
+import { GstinCorrection, GstinSuggestion, GstinValidation } from '../types/invoice';
+
+const CHARSET = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ';
+const GSTIN_PATTERN = /^[0-9]{2}[A-Z]{5}[0-9]{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/;
+
+// Characters OCR commonly confuses on printed invoices
+const OCR_SWAPS: Record<string, string> = {
+  '0': 'O', 'O': '0',
+  '1': 'I', 'I': '1',
+  '5': 'S', 'S': '5',
+  '8': 'B', 'B': '8',
+  '2': 'Z', 'Z': '2'
+};
+
+// Character class expected at each of the 15 GSTIN positions
+const POSITION_CLASSES: RegExp[] = [
+  /[0-9]/, /[0-9]/,
+  /[A-Z]/, /[A-Z]/, /[A-Z]/, /[A-Z]/, /[A-Z]/,
+  /[0-9]/, /[0-9]/, /[0-9]/, /[0-9]/,
+  /[A-Z]/,
+  /[1-9A-Z]/,
+  /Z/,
+  /[0-9A-Z]/
+];
+
+const MAX_CORRECTIONS = 3;
+const MAX_SUGGESTIONS = 5;
+
+export const GST_STATE_CODES: Record<string, string> = {
+  '01': 'Jammu and Kashmir',
+  '02': 'Himachal Pradesh',
+  '03': 'Punjab',
+  '04': 'Chandigarh',
+  '05': 'Uttarakhand',
+  '06': 'Haryana',
+  '07': 'Delhi',
+  '08': 'Rajasthan',
+  '09': 'Uttar Pradesh',
+  '10': 'Bihar',
+  '11': 'Sikkim',
+  '12': 'Arunachal Pradesh',
+  '13': 'Nagaland',
+  '14': 'Manipur',
+  '15': 'Mizoram',
+  '16': 'Tripura',
+  '17': 'Meghalaya',
+  '18': 'Assam',
+  '19': 'West Bengal',
+  '20': 'Jharkhand',
+  '21': 'Odisha',
+  '22': 'Chhattisgarh',
+  '23': 'Madhya Pradesh',
+  '24': 'Gujarat',
+  '25': 'Daman and Diu',
+  '26': 'Dadra and Nagar Haveli and Daman and Diu',
+  '27': 'Maharashtra',
+  '28': 'Andhra Pradesh (Old)',
+  '29': 'Karnataka',
+  '30': 'Goa',
+  '31': 'Lakshadweep',
+  '32': 'Kerala',
+  '33': 'Tamil Nadu',
+  '34': 'Puducherry',
+  '35': 'Andaman and Nicobar Islands',
+  '36': 'Telangana',
+  '37': 'Andhra Pradesh',
+  '38': 'Ladakh',
+  '97': 'Other Territory',
+  '99': 'Centre Jurisdiction'
+};
+
+const PAN_HOLDER_TYPES: Record<string, string> = {
+  P: 'Individual',
+  C: 'Company',
+  H: 'Hindu Undivided Family',
+  F: 'Firm / LLP',
+  A: 'Association of Persons',
+  T: 'Trust',
+  B: 'Body of Individuals',
+  L: 'Local Authority',
+  J: 'Artificial Juridical Person',
+  G: 'Government'
+};
+
+export class GstinValidator {
+  static normalize(raw: string): string {
+    return (raw || '')
+      .replace(/[०-९]/g, d => String(d.charCodeAt(0) - 0x0966))
+      .toUpperCase()
+      .replace(/[^0-9A-Z]/g, '');
+  }
+
+  static computeCheckDigit(first14: string): string {
+    let sum = 0;
+    for (let i = 0; i < 14; i++) {
+      const value = CHARSET.indexOf(first14[i]);
+      const product = value * (i % 2 === 0 ? 1 : 2);
+      sum += Math.floor(product / 36) + (product % 36);
+    }
+    return CHARSET[(36 - (sum % 36)) % 36];
+  }
+
+  static isValid(raw: string): boolean {
+    return this.validate(raw).isValid;
+  }
+
+  static decodeState(code: string): string | undefined {
+    return GST_STATE_CODES[code];
+  }
+
+  static validate(raw: string): GstinValidation {
+    const input = raw || '';
+    const normalized = this.normalize(input);
+    const errors: string[] = [];
+
+    if (!normalized || normalized === 'NA') {
+      return {
+        input,
+        normalized: '',
+        isValid: false,
+        structureValid: false,
+        checksumValid: false,
+        errors: ['GSTIN is missing'],
+        suggestions: []
+      };
+    }
+
+    if (normalized.length !== 15) {
+      errors.push(`GSTIN must be 15 characters (found ${normalized.length})`);
+    }
+
+    const structureValid = GSTIN_PATTERN.test(normalized);
+    if (normalized.length === 15 && !structureValid) {
+      const badPositions = POSITION_CLASSES
+        .map((cls, idx) => (cls.test(normalized[idx]) ? -1 : idx + 1))
+        .filter(p => p > 0);
+      errors.push(`Unexpected characters at position ${badPositions.join(', ')}`);
+    }
+
+    const stateCode = normalized.slice(0, 2);
+    const stateName = this.decodeState(stateCode);
+    if (structureValid && !stateName) {
+      errors.push(`Unknown state code ${stateCode}`);
+    }
+
+    let checksumValid = false;
+    let expectedCheckDigit: string | undefined;
+    if (structureValid) {
+      expectedCheckDigit = this.computeCheckDigit(normalized.slice(0, 14));
+      checksumValid = expectedCheckDigit === normalized[14];
+      if (!checksumValid) {
+        errors.push(`Check digit mismatch (expected ${expectedCheckDigit}, found ${normalized[14]})`);
+      }
+    }
+
+    const pan = normalized.length >= 12 ? normalized.slice(2, 12) : undefined;
+    const isValid = structureValid && checksumValid && Boolean(stateName);
+
+    return {
+      input,
+      normalized,
+      isValid,
+      structureValid,
+      checksumValid,
+      stateCode: /^[0-9]{2}$/.test(stateCode) ? stateCode : undefined,
+      stateName,
+      pan,
+      panHolderType: structureValid ? PAN_HOLDER_TYPES[normalized[5]] : undefined,
+      entityNumber: structureValid ? normalized[12] : undefined,
+      expectedCheckDigit,
+      errors,
+      suggestions: isValid ? [] : this.suggestCorrections(normalized)
+    };
+  }
+
+  /**
+   * Finds GSTINs reachable through OCR character swaps that satisfy both the
+   * positional structure and the mod-36 check digit, fewest changes first.
+   */
+  static suggestCorrections(raw: string): GstinSuggestion[] {
+    const normalized = this.normalize(raw);
+    if (normalized.length !== 15) return [];
+
+    const options: string[][] = normalized.split('').map((ch, idx) => {
+      const cls = POSITION_CLASSES[idx];
+      const candidates: string[] = [];
+      if (cls.test(ch)) candidates.push(ch);
+      const swapped = OCR_SWAPS[ch];
+      if (swapped && cls.test(swapped)) candidates.push(swapped);
+      return candidates;
+    });
+
+    if (options.some(o => o.length === 0)) return [];
+
+    const results: GstinSuggestion[] = [];
+    const walk = (idx: number, current: string[], changes: GstinCorrection[]) => {
+      if (changes.length > MAX_CORRECTIONS) return;
+      if (idx === 15) {
+        if (changes.length === 0) return;
+        const candidate = current.join('');
+        const stateName = this.decodeState(candidate.slice(0, 2));
+        if (stateName && this.computeCheckDigit(candidate.slice(0, 14)) === candidate[14]) {
+          results.push({ gstin: candidate, changes: [...changes], stateName });
+        }
+        return;
+      }
+      options[idx].forEach(ch => {
+        const changed = ch !== normalized[idx];
+        current.push(ch);
+        if (changed) changes.push({ position: idx + 1, from: normalized[idx], to: ch });
+        walk(idx + 1, current, changes);
+        if (changed) changes.pop();
+        current.pop();
+      });
+    };
+    walk(0, [], []);
+
+    return results
+      .sort((a, b) => a.changes.length - b.changes.length)
+      .slice(0, MAX_SUGGESTIONS);
+  }
+}
@@ -0,0 +1,418 @@
+import { PreprocessedImage } from '../types/invoice';
+
+// Phone photos are 4000px and more; OCR gains nothing above this
+const MAX_OUTPUT_SIDE = 2000;
+// Working copies used to find the page and measure skew
+const PAGE_ANALYSIS_SIDE = 400;
+const SKEW_ANALYSIS_SIDE = 800;
+const MAX_SKEW_DEGREES = 8;
+const MIN_SKEW_DEGREES = 0.3;
+// The page must cover this share of the photo, and fill most of its corners' outline
+const MIN_PAGE_AREA = 0.2;
+const MAX_PAGE_AREA = 0.95;
+const MIN_PAGE_FILL = 0.85;
+// Bradley–Roth: a pixel is ink when this much darker than its neighbourhood mean
+const BINARIZE_THRESHOLD = 0.15;
+
+/** 8-bit grayscale pixels, row by row. */
+export interface GrayImage {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray;
+}
+
+type Point = [number, number];
+
+const ORIENTATION_LABELS: Record<number, string> = {
+  2: 'mirrored',
+  3: 'rotated 180°',
+  4: 'flipped vertically',
+  5: 'mirrored and rotated 90°',
+  6: 'rotated 90° clockwise',
+  7: 'mirrored and rotated 270°',
+  8: 'rotated 90° counter-clockwise'
+};
+
+/** EXIF orientation (1–8) of a JPEG; 1 when it has none. */
+export function readExifOrientation(buffer: ArrayBuffer): number {
+  const view = new DataView(buffer);
+  try {
+    if (view.getUint16(0) !== 0xffd8) return 1;
+    let offset = 2;
+    while (offset + 10 < view.byteLength) {
+      const marker = view.getUint16(offset);
+      if ((marker & 0xff00) !== 0xff00 || marker === 0xffda) return 1; // Image data starts
+      if (marker === 0xffe1 && view.getUint32(offset + 4) === 0x45786966) { // "Exif"
+        const tiff = offset + 10;
+        const little = view.getUint16(tiff) === 0x4949;
+        const ifd = tiff + view.getUint32(tiff + 4, little);
+        const entries = view.getUint16(ifd, little);
+        for (let i = 0; i < entries; i++) {
+          const entry = ifd + 2 + i * 12;
+          if (view.getUint16(entry, little) === 0x0112) return view.getUint16(entry + 8, little);
+        }
+        return 1;
+      }
+      offset += 2 + view.getUint16(offset + 2);
+    }
+  } catch {
+    // Truncated or malformed EXIF
+  }
+  return 1;
+}
+
+const clampByte = (value: number) => Math.max(0, Math.min(255, Math.round(value)));
+
+function sample(image: GrayImage, x: number, y: number): number {
+  if (x < 0 || y < 0 || x > image.width - 1 || y > image.height - 1) return 255; // Outside is blank paper
+  const x0 = Math.floor(x);
+  const y0 = Math.floor(y);
+  const x1 = Math.min(x0 + 1, image.width - 1);
+  const y1 = Math.min(y0 + 1, image.height - 1);
+  const fx = x - x0;
+  const fy = y - y0;
+  const { data, width } = image;
+  const top = data[y0 * width + x0] * (1 - fx) + data[y0 * width + x1] * fx;
+  const bottom = data[y1 * width + x0] * (1 - fx) + data[y1 * width + x1] * fx;
+  return top * (1 - fy) + bottom * fy;
+}
+
+/** Solves `matrix · x = vector` by Gaussian elimination with partial pivoting. */
+function solve(matrix: number[][], vector: number[]): number[] | null {
+  const n = vector.length;
+  const rows = matrix.map((row, i) => [...row, vector[i]]);
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(rows[row][col]) > Math.abs(rows[pivot][col])) pivot = row;
+    }
+    if (Math.abs(rows[pivot][col]) < 1e-10) return null;
+    [rows[col], rows[pivot]] = [rows[pivot], rows[col]];
+    for (let row = 0; row < n; row++) {
+      if (row === col) continue;
+      const factor = rows[row][col] / rows[col][col];
+      for (let k = col; k <= n; k++) rows[row][k] -= factor * rows[col][k];
+    }
+  }
+  return rows.map((row, i) => row[n] / row[i]);
+}
+
+/** Homography coefficients [a..h] mapping each `from` point onto its `to` point. */
+function homography(from: Point[], to: Point[]): number[] | null {
+  const matrix: number[][] = [];
+  const vector: number[] = [];
+  from.forEach(([x, y], i) => {
+    const [u, v] = to[i];
+    matrix.push([x, y, 1, 0, 0, 0, -x * u, -y * u]);
+    vector.push(u);
+    matrix.push([0, 0, 0, x, y, 1, -x * v, -y * v]);
+    vector.push(v);
+  });
+  return solve(matrix, vector);
+}
+
+const distance = (a: Point, b: Point) => Math.hypot(a[0] - b[0], a[1] - b[1]);
+
+const polygonArea = (points: Point[]) =>
+  Math.abs(points.reduce((sum, [x, y], i) => {
+    const [nx, ny] = points[(i + 1) % points.length];
+    return sum + x * ny - nx * y;
+  }, 0)) / 2;
+
+export class ImagePreprocessor {
+  /**
+   * Prepares a photographed invoice for OCR: upright per EXIF, downscaled,
+   * cropped to the page with its perspective corrected, deskewed and
+   * binarised. Steps that find nothing to fix are skipped.
+   */
+  static async process(file: File): Promise<PreprocessedImage> {
+    const orientation = readExifOrientation(await file.arrayBuffer());
+    // The browser's decoder applies the EXIF orientation
+    const bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+    const steps: string[] = [];
+    if (ORIENTATION_LABELS[orientation]) steps.push(`Turned upright (photo was ${ORIENTATION_LABELS[orientation]})`);
+
+    // Downscaled first so the later steps work on fewer pixels
+    const scale = Math.min(1, MAX_OUTPUT_SIDE / Math.max(bitmap.width, bitmap.height));
+    const width = Math.round(bitmap.width * scale);
+    const height = Math.round(bitmap.height * scale);
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const context = canvas.getContext('2d');
+    if (!context) throw new Error('Canvas is not available to process the image');
+    context.drawImage(bitmap, 0, 0, width, height);
+    if (scale < 1) steps.push(`Downscaled from ${bitmap.width}×${bitmap.height} to ${width}×${height}`);
+    bitmap.close();
+
+    let image = this.toGray(context.getImageData(0, 0, width, height));
+
+    const corners = this.findPage(image);
+    if (corners) {
+      image = this.warpPerspective(image, corners);
+      steps.push('Cropped to the page and corrected its perspective');
+    }
+
+    const skew = this.estimateSkew(image);
+    if (Math.abs(skew) >= MIN_SKEW_DEGREES) {
+      image = this.rotate(image, skew);
+      steps.push(`Straightened by ${skew.toFixed(1)}°`);
+    }
+
+    image = this.binarize(image);
+    steps.push('Converted to black and white with adaptive thresholding');
+
+    const blob = await this.toPng(image);
+    const name = file.name.replace(/\.[^.]+$/, '') + '-processed.png';
+    return { file: new File([blob], name, { type: 'image/png' }), width: image.width, height: image.height, steps };
+  }
+
+  static toGray(pixels: { width: number; height: number; data: Uint8ClampedArray }): GrayImage {
+    const data = new Uint8ClampedArray(pixels.width * pixels.height);
+    for (let i = 0; i < data.length; i++) {
+      data[i] = clampByte(0.299 * pixels.data[i * 4] + 0.587 * pixels.data[i * 4 + 1] + 0.114 * pixels.data[i * 4 + 2]);
+    }
+    return { width: pixels.width, height: pixels.height, data };
+  }
+
+  /** Box-filtered copy whose longer side is at most `maxSide`. */
+  static downscale(image: GrayImage, maxSide: number): GrayImage {
+    const factor = Math.max(image.width, image.height) / maxSide;
+    if (factor <= 1) return image;
+    const width = Math.max(1, Math.round(image.width / factor));
+    const height = Math.max(1, Math.round(image.height / factor));
+    const data = new Uint8ClampedArray(width * height);
+    for (let y = 0; y < height; y++) {
+      const y0 = Math.floor(y * factor);
+      const y1 = Math.max(y0 + 1, Math.min(image.height, Math.floor((y + 1) * factor)));
+      for (let x = 0; x < width; x++) {
+        const x0 = Math.floor(x * factor);
+        const x1 = Math.max(x0 + 1, Math.min(image.width, Math.floor((x + 1) * factor)));
+        let sum = 0;
+        for (let sy = y0; sy < y1; sy++) {
+          for (let sx = x0; sx < x1; sx++) sum += image.data[sy * image.width + sx];
+        }
+        data[y * width + x] = sum / ((y1 - y0) * (x1 - x0));
+      }
+    }
+    return { width, height, data };
+  }
+
+  /** Otsu's global threshold: the level that best separates dark from light pixels. */
+  static otsuThreshold(image: GrayImage): number {
+    const histogram = new Array(256).fill(0);
+    image.data.forEach(value => histogram[value]++);
+    const total = image.data.length;
+    const sumAll = histogram.reduce((sum, count, level) => sum + count * level, 0);
+    let sumBelow = 0;
+    let countBelow = 0;
+    let best = { level: 127, variance: -1 };
+    for (let level = 0; level < 256; level++) {
+      countBelow += histogram[level];
+      if (countBelow === 0 || countBelow === total) continue;
+      sumBelow += histogram[level] * level;
+      const meanBelow = sumBelow / countBelow;
+      const meanAbove = (sumAll - sumBelow) / (total - countBelow);
+      const variance = countBelow * (total - countBelow) * (meanBelow - meanAbove) ** 2;
+      if (variance > best.variance) best = { level, variance };
+    }
+    return best.level;
+  }
+
+  /**
+   * Corners (top-left, top-right, bottom-right, bottom-left) of a page lying
+   * on a darker background, or null when the photo shows no distinct page or
+   * the page already fills it.
+   */
+  static findPage(image: GrayImage): Point[] | null {
+    const small = this.downscale(image, PAGE_ANALYSIS_SIDE);
+    const { width, height } = small;
+    const threshold = this.otsuThreshold(small);
+
+    // Largest connected region of paper-bright pixels
+    const labels = new Int32Array(width * height).fill(-1);
+    const stack = new Int32Array(width * height);
+    let best: { label: number; size: number } = { label: -1, size: 0 };
+    for (let start = 0; start < labels.length; start++) {
+      if (labels[start] !== -1 || small.data[start] <= threshold) continue;
+      let top = 0;
+      let size = 0;
+      stack[top++] = start;
+      labels[start] = start;
+      while (top > 0) {
+        const index = stack[--top];
+        size++;
+        const x = index % width;
+        const neighbours = [
+          x > 0 ? index - 1 : -1,
+          x < width - 1 ? index + 1 : -1,
+          index - width,
+          index + width
+        ];
+        for (const next of neighbours) {
+          if (next < 0 || next >= labels.length || labels[next] !== -1 || small.data[next] <= threshold) continue;
+          labels[next] = start;
+          stack[top++] = next;
+        }
+      }
+      if (size > best.size) best = { label: start, size };
+    }
+
+    const coverage = best.size / (width * height);
+    if (coverage < MIN_PAGE_AREA || coverage > MAX_PAGE_AREA) return null;
+
+    // Extremes of x + y and x − y are the corners of a page turned less than 45°
+    let tl: Point = [0, 0], tr: Point = [0, 0], br: Point = [0, 0], bl: Point = [0, 0];
+    let minSum = Infinity, maxSum = -Infinity, minDiff = Infinity, maxDiff = -Infinity;
+    for (let index = 0; index < labels.length; index++) {
+      if (labels[index] !== best.label) continue;
+      const x = index % width;
+      const y = Math.floor(index / width);
+      if (x + y < minSum) { minSum = x + y; tl = [x, y]; }
+      if (x + y > maxSum) { maxSum = x + y; br = [x, y]; }
+      if (x - y > maxDiff) { maxDiff = x - y; tr = [x, y]; }
+      if (x - y < minDiff) { minDiff = x - y; bl = [x, y]; }
+    }
+
+    const corners = [tl, tr, br, bl];
+    const area = polygonArea(corners);
+    if (area === 0 || best.size / area < MIN_PAGE_FILL) return null; // Not a four-sided page
+    if (area / (width * height) > MAX_PAGE_AREA) return null; // Already fills the photo
+
+    const factor = image.width / width;
+    return corners.map(([x, y]) => [(x + 0.5) * factor, (y + 0.5) * factor] as Point);
+  }
+
+  /** Maps the quadrilateral `corners` onto an upright rectangle of the page's size. */
+  static warpPerspective(image: GrayImage, corners: Point[]): GrayImage {
+    const [tl, tr, br, bl] = corners;
+    let width = Math.max(distance(tl, tr), distance(bl, br));
+    let height = Math.max(distance(tl, bl), distance(tr, br));
+    const scale = Math.min(1, MAX_OUTPUT_SIDE / Math.max(width, height));
+    width = Math.max(1, Math.round(width * scale));
+    height = Math.max(1, Math.round(height * scale));
+
+    const h = homography([[0, 0], [width - 1, 0], [width - 1, height - 1], [0, height - 1]], corners);
+    if (!h) return image;
+
+    const data = new Uint8ClampedArray(width * height);
+    for (let v = 0; v < height; v++) {
+      for (let u = 0; u < width; u++) {
+        const denominator = h[6] * u + h[7] * v + 1;
+        data[v * width + u] = sample(
+          image,
+          (h[0] * u + h[1] * v + h[2]) / denominator,
+          (h[3] * u + h[4] * v + h[5]) / denominator
+        );
+      }
+    }
+    return { width, height, data };
+  }
+
+  /**
+   * Angle of the text lines in degrees (positive when they fall to the right),
+   * found as the projection angle whose row profile of ink is sharpest.
+   */
+  static estimateSkew(image: GrayImage): number {
+    const small = this.downscale(image, SKEW_ANALYSIS_SIDE);
+    const threshold = this.otsuThreshold(small);
+    const ink: number[] = [];
+    for (let index = 0; index < small.data.length; index++) {
+      if (small.data[index] < threshold) ink.push(index % small.width, Math.floor(index / small.width));
+    }
+    const inkCount = ink.length / 2;
+    if (inkCount < 50 || inkCount > small.data.length * 0.5) return 0;
+
+    const diagonal = Math.ceil(Math.hypot(small.width, small.height));
+    const profile = new Float64Array(diagonal * 2 + 1);
+    const sharpness = (degrees: number) => {
+      const radians = (degrees * Math.PI) / 180;
+      const sin = Math.sin(radians);
+      const cos = Math.cos(radians);
+      profile.fill(0);
+      for (let i = 0; i < ink.length; i += 2) {
+        profile[Math.round(ink[i + 1] * cos - ink[i] * sin) + diagonal]++;
+      }
+      return profile.reduce((sum, count) => sum + count * count, 0);
+    };
+
+    const search = (from: number, to: number, step: number) => {
+      let best = { angle: 0, score: -1 };
+      for (let angle = from; angle <= to + 1e-9; angle += step) {
+        const score = sharpness(angle);
+        if (score > best.score) best = { angle, score };
+      }
+      return best.angle;
+    };
+
+    const coarse = search(-MAX_SKEW_DEGREES, MAX_SKEW_DEGREES, 0.5);
+    return Math.round(search(coarse - 0.5, coarse + 0.5, 0.1) * 10) / 10;
+  }
+
+  /** Rotates the content about the centre so lines at `degrees` become level. */
+  static rotate(image: GrayImage, degrees: number): GrayImage {
+    const radians = (degrees * Math.PI) / 180;
+    const sin = Math.sin(radians);
+    const cos = Math.cos(radians);
+    const cx = (image.width - 1) / 2;
+    const cy = (image.height - 1) / 2;
+    const data = new Uint8ClampedArray(image.width * image.height);
+    for (let v = 0; v < image.height; v++) {
+      for (let u = 0; u < image.width; u++) {
+        const dx = u - cx;
+        const dy = v - cy;
+        data[v * image.width + u] = sample(image, cx + dx * cos - dy * sin, cy + dx * sin + dy * cos);
+      }
+    }
+    return { width: image.width, height: image.height, data };
+  }
+
+  /**
+   * Bradley–Roth adaptive thresholding: each pixel is compared with the mean
+   * of its neighbourhood, so shadows and uneven light don't swallow the text.
+   */
+  static binarize(image: GrayImage): GrayImage {
+    const { width, height } = image;
+    const integral = new Float64Array((width + 1) * (height + 1));
+    for (let y = 0; y < height; y++) {
+      let rowSum = 0;
+      for (let x = 0; x < width; x++) {
+        rowSum += image.data[y * width + x];
+        integral[(y + 1) * (width + 1) + x + 1] = integral[y * (width + 1) + x + 1] + rowSum;
+      }
+    }
+
+    const half = Math.max(7, Math.round(Math.max(width, height) / 64));
+    const data = new Uint8ClampedArray(width * height);
+    for (let y = 0; y < height; y++) {
+      const y0 = Math.max(0, y - half);
+      const y1 = Math.min(height, y + half + 1);
+      for (let x = 0; x < width; x++) {
+        const x0 = Math.max(0, x - half);
+        const x1 = Math.min(width, x + half + 1);
+        const sum = integral[y1 * (width + 1) + x1] - integral[y0 * (width + 1) + x1]
+          - integral[y1 * (width + 1) + x0] + integral[y0 * (width + 1) + x0];
+        const mean = sum / ((y1 - y0) * (x1 - x0));
+        data[y * width + x] = image.data[y * width + x] < mean * (1 - BINARIZE_THRESHOLD) ? 0 : 255;
+      }
+    }
+    return { width, height, data };
+  }
+
+  private static async toPng(image: GrayImage): Promise<Blob> {
+    const canvas = document.createElement('canvas');
+    canvas.width = image.width;
+    canvas.height = image.height;
+    const context = canvas.getContext('2d');
+    if (!context) throw new Error('Canvas is not available to process the image');
+    const pixels = context.createImageData(image.width, image.height);
+    image.data.forEach((value, i) => {
+      pixels.data[i * 4] = pixels.data[i * 4 + 1] = pixels.data[i * 4 + 2] = value;
+      pixels.data[i * 4 + 3] = 255;
+    });
+    context.putImageData(pixels, 0, 0);
+    const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+    if (!blob) throw new Error('Could not encode the processed image');
+    return blob;
+  }
+}
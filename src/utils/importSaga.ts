@@ -0,0 +1,66 @@
+import { ImportReport, ImportStep } from '../types/invoice';
+
+/** Supabase-style result: the call succeeded when `error` is empty. */
+interface QueryResult<T> {
+  data: T | null;
+  error: { message: string } | null;
+}
+
+/** Unwraps a Supabase response, throwing its error. */
+export async function unwrap<T>(query: PromiseLike<QueryResult<T>>): Promise<T> {
+  const { data, error } = await query;
+  if (error) throw new Error(error.message);
+  return data as T;
+}
+
+/**
+ * Runs the writes of one import as a saga: every step that succeeds
+ * registers how to undo it, and `rollback` replays those compensations in
+ * reverse order when a later step fails. The steps double as the report of
+ * what was and wasn't persisted.
+ */
+export class ImportSaga {
+  private readonly steps: ImportStep[] = [];
+  private readonly compensations: Array<{ step: ImportStep; undo: () => Promise<unknown> }> = [];
+
+  async run<T>(
+    label: string,
+    table: string,
+    action: () => Promise<T>,
+    undo?: (result: T) => Promise<unknown>
+  ): Promise<T> {
+    const step: ImportStep = { label, table, status: 'done' };
+    this.steps.push(step);
+    try {
+      const result = await action();
+      if (undo) this.compensations.push({ step, undo: () => undo(result) });
+      return result;
+    } catch (error) {
+      step.status = 'failed';
+      step.detail = (error as Error)?.message || 'Unknown error';
+      throw error;
+    }
+  }
+
+  /** Undoes completed steps, newest first. Compensation failures are recorded, not thrown. */
+  async rollback(): Promise<void> {
+    for (const { step, undo } of [...this.compensations].reverse()) {
+      try {
+        await undo();
+        step.status = 'rolled-back';
+      } catch (error) {
+        step.status = 'rollback-failed';
+        step.detail = (error as Error)?.message || 'Unknown error';
+      }
+    }
+    this.compensations.length = 0;
+  }
+
+  report(error?: unknown): ImportReport {
+    return {
+      committed: !error,
+      error: error ? (error as Error)?.message || 'Import failed' : undefined,
+      steps: this.steps.map(step => ({ ...step }))
+    };
+  }
+}
@@ -0,0 +1,134 @@
+import { DirectionDetection, InvoiceDirection } from '../types/invoice';
+import { GstinValidator } from './gstinValidator';
+
+const BUSINESS_GSTINS_STORAGE_KEY = 'business-gstins';
+
+export const EXPENSE_CATEGORIES = [
+  'Inventory Purchase',
+  'Utilities',
+  'Rent',
+  'Telecom & Internet',
+  'Fuel & Travel',
+  'Logistics & Courier',
+  'Repairs & Maintenance',
+  'Office Supplies',
+  'Professional Services',
+  'Food & Entertainment',
+  'Other'
+] as const;
+
+export type ExpenseCategory = typeof EXPENSE_CATEGORIES[number];
+
+interface DirectionInput {
+  companyName?: string;
+  supplierGstin?: string;
+  buyerGstin?: string;
+  fullText?: string;
+  items: Array<{ name?: string; hsnSac?: string }>;
+}
+
+interface CategoryRule {
+  category: ExpenseCategory;
+  keywords: RegExp;
+  codes: RegExp; // HSN/SAC prefixes
+}
+
+// Checked in order; the first rule with a keyword or code hit wins
+const CATEGORY_RULES: CategoryRule[] = [
+  { category: 'Utilities', keywords: /electricity|power bill|water bill|\blpg\b|gas cylinder|bijli|बिजली/i, codes: /^(2716|9969)/ },
+  { category: 'Rent', keywords: /\brent\b|\blease\b|kiraya|किराया/i, codes: /^9972/ },
+  { category: 'Telecom & Internet', keywords: /broadband|internet|telephone|mobile recharge|postpaid|prepaid|airtel|jio|bsnl|वोडाफोन/i, codes: /^998(4|42)/ },
+  { category: 'Fuel & Travel', keywords: /petrol|diesel|fuel|\bcng\b|\btoll\b|taxi|\bcab\b|\btrain\b|flight|air ticket|hotel stay|पेट्रोल|डीजल/i, codes: /^(2710|9964|9966)/ },
+  { category: 'Logistics & Courier', keywords: /courier|freight|transport|shipping|delivery charge|cartage|भाड़ा/i, codes: /^(9965|9967|9968)/ },
+  { category: 'Repairs & Maintenance', keywords: /repair|maintenance|servicing|amc\b|मरम्मत/i, codes: /^9987/ },
+  { category: 'Office Supplies', keywords: /stationery|printer|toner|cartridge|a4 paper|\bpens?\b/i, codes: /^(4802|4820|8443)/ },
+  { category: 'Professional Services', keywords: /consult|legal|audit|accounting|professional fee|chartered accountant|advocate/i, codes: /^(9982|9983)/ },
+  { category: 'Food & Entertainment', keywords: /restaurant|\bcafe\b|catering|\bmeals?\b|refreshment|भोजन/i, codes: /^9963/ }
+];
+
+// Invoices of these categories are services or overheads, not stock
+const EXPENSE_ONLY = new Set<ExpenseCategory>(CATEGORY_RULES.map(rule => rule.category));
+
+export function getBusinessGstins(): string[] {
+  let stored: string[] = [];
+  try {
+    const raw = typeof localStorage !== 'undefined' ? localStorage.getItem(BUSINESS_GSTINS_STORAGE_KEY) : null;
+    stored = raw ? JSON.parse(raw) : [];
+  } catch {
+    stored = [];
+  }
+  const fromEnv = (import.meta.env.VITE_BUSINESS_GSTIN || '').split(',');
+  return [...new Set([...stored, ...fromEnv].map(g => GstinValidator.normalize(g)).filter(Boolean))];
+}
+
+export function saveBusinessGstins(gstins: string[]): void {
+  const valid = gstins.map(g => GstinValidator.normalize(g)).filter(g => GstinValidator.isValid(g));
+  localStorage.setItem(BUSINESS_GSTINS_STORAGE_KEY, JSON.stringify(valid));
+}
+
+export class InvoiceDirectionDetector {
+  /**
+   * Our own GSTIN as seller makes the invoice a sale, as buyer a purchase.
+   * Service codes and overhead keywords (rent, electricity, fuel…) make it an
+   * expense. Without evidence the invoice is assumed to be a supplier bill.
+   */
+  static detect(input: DirectionInput, ownGstins: string[] = getBusinessGstins()): DirectionDetection {
+    const own = new Set(ownGstins);
+    const supplier = input.supplierGstin ? GstinValidator.normalize(input.supplierGstin) : '';
+    const buyer = input.buyerGstin ? GstinValidator.normalize(input.buyerGstin) : '';
+
+    if (supplier && own.has(supplier)) {
+      return { direction: 'sale', assumed: false, reasons: ['The seller GSTIN is your own'] };
+    }
+
+    const category = this.inferCategory({ ...input, direction: 'expense' });
+    const expenseReason = EXPENSE_ONLY.has(category.category) ? category.reason : undefined;
+
+    if (buyer && own.has(buyer)) {
+      return expenseReason
+        ? { direction: 'expense', assumed: false, reasons: ['Billed to your GSTIN', expenseReason] }
+        : { direction: 'purchase', assumed: false, reasons: ['Billed to your GSTIN'] };
+    }
+
+    const compactText = (input.fullText || '').toUpperCase().replace(/[\s-]/g, '');
+    const ownInText = [...own].find(gstin => compactText.includes(gstin));
+    if (ownInText && supplier && supplier !== ownInText) {
+      return expenseReason
+        ? { direction: 'expense', assumed: false, reasons: ['Your GSTIN appears as the buyer', expenseReason] }
+        : { direction: 'purchase', assumed: false, reasons: ['Your GSTIN appears as the buyer'] };
+    }
+
+    if (expenseReason) return { direction: 'expense', assumed: false, reasons: [expenseReason] };
+
+    return {
+      direction: 'purchase',
+      assumed: true,
+      reasons: [own.size === 0 ? 'Set your GSTIN to tell sales from purchases' : 'Your GSTIN does not appear on the invoice']
+    };
+  }
+
+  /** Expense category from item HSN/SAC codes, then keywords in the item and supplier names. */
+  static inferCategory(input: DirectionInput & { direction: InvoiceDirection }): {
+    category: ExpenseCategory;
+    reason: string;
+  } {
+    const codes = input.items.map(item => (item.hsnSac || '').replace(/\D/g, '')).filter(Boolean);
+    for (const rule of CATEGORY_RULES) {
+      const code = codes.find(c => rule.codes.test(c));
+      if (code) return { category: rule.category, reason: `HSN/SAC ${code} is ${rule.category.toLowerCase()}` };
+    }
+
+    // The whole OCR text mentions transport, delivery and the like on ordinary bills, so it is only read without items
+    const text = [input.companyName, ...input.items.map(item => item.name), input.items.length === 0 ? input.fullText : '']
+      .filter(Boolean)
+      .join(' ');
+    for (const rule of CATEGORY_RULES) {
+      const match = text.match(rule.keywords);
+      if (match) return { category: rule.category, reason: `Mentions "${match[0]}"` };
+    }
+
+    return input.direction === 'purchase'
+      ? { category: 'Inventory Purchase', reason: 'Goods bought from a supplier' }
+      : { category: 'Other', reason: 'No category keywords found' };
+  }
+}
@@ -0,0 +1,172 @@
+import { EInvoiceCheck, OcrDetection, OcrResponse } from '../types/invoice';
+import { InvoiceStructured, InvoiceStructuredItem, structureInvoiceViaSonar } from './sonar';
+import { PdfInvoiceReader, isPdfFile } from './pdfInvoice';
+import { requestOcr } from './ocrProvider';
+import { InvoiceTableReconstructor, ReconstructedTable } from './invoiceTableReconstructor';
+import { SupplierProfileStore } from './supplierProfiles';
+import { CurrencyDetector, parseAmount } from './currency';
+import { AmountInWords } from './amountInWords';
+import { EInvoiceQr } from './eInvoiceQr';
+import { MONTH_NAME_DATE_PATTERN } from './dateNormalizer';
+
+export type ExtractedInvoice = Partial<Omit<InvoiceStructured, 'items'>> & {
+  items: InvoiceStructuredItem[];
+  raw?: OcrResponse;
+  fileName?: string;
+  image?: File; // The photo the detections' boxes refer to; PDFs have none
+  eInvoice?: EInvoiceCheck;
+};
+
+export type InvoiceExtractionStage = 'ocr' | 'structuring';
+
+/**
+ * Quick pass over the OCR response, used as the model's hint and as the
+ * fallback result. Items come from the layout-reconstructed table when the
+ * detections carry positions, otherwise from regex over the text lines.
+ */
+export const parseOcrToInvoice = (
+  resp: OcrResponse,
+  table: ReconstructedTable | null = InvoiceTableReconstructor.reconstruct(resp?.detections || [])
+): ExtractedInvoice => {
+  const detections: OcrDetection[] = resp?.detections || [];
+  const fullText: string = resp?.full_text || '';
+  const text = [fullText, ...detections.map(d => d.text)].join('\n');
+
+  // The first capture group when the pattern has one, so labels are left out
+  const findMatch = (regex: RegExp): string | undefined => {
+    const m = text.match(regex);
+    return m ? m[1] ?? m[0] : undefined;
+  };
+
+  const extractAfter = (labelRegex: RegExp, maxLen = 80): string | undefined => {
+    const idx = text.search(labelRegex);
+    if (idx === -1) return undefined;
+    const slice = text.slice(idx).split(/\n|\r/)[0];
+    const parts = slice.split(/[:：]/);
+    if (parts.length > 1) {
+      return parts[1].trim().slice(0, maxLen);
+    }
+    return undefined;
+  };
+
+  const companyLine = findMatch(/(?:(?:Tax\s+Invoice)|चालान|इनवॉइस)[\s\S]{0,120}/i) ||
+    [...detections].sort((a,b)=>b.confidence-a.confidence).map(d=>d.text).find(t=>t.length>4);
+
+  const companyName = companyLine?.split(/\n|,|\s{2,}/)[0]?.trim();
+  const address = findMatch(/\d{1,5}[^\n]{5,60}(?:स्ट्रीट|Street|Road|मार्ग|बिल्डिंग|Building)[^\n]{0,80}/i);
+
+  const gstNumber = findMatch(/(?:GST\s*No\.?|GSTIN|जीएसटी\s*नंबर)[^A-Za-z0-9]{0,6}([A-Z0-9-]{10,20})/i) ||
+    findMatch(/[0-9०-९]{2}\s*[A-Z]{4}[A-Z0-9]{5}[-–—]?[0-9A-Z]{1}[-–—]?[Zz][-–—]?[0-9A-Z]{1}/);
+
+  const date = findMatch(/\b\d{1,2}[/.-]\d{1,2}[/.-]\d{2,4}\b/) ||
+    findMatch(MONTH_NAME_DATE_PATTERN) ||
+    extractAfter(/दिन(?:ा|ा)क|Date/i);
+
+  const invoiceNumber = extractAfter(/(?:Invoice\s*No\.?|चालान\s*नंबर|Bill\s*No\.?)/i, 40);
+  const customerId = extractAfter(/(?:Customer\s*ID|गाहक\s*आईडी)/i, 40);
+
+  // Basic totals: amounts with a currency mark, Indian (1,00,000) or western (100,000) grouping, or decimals
+  const moneyRegex = /(?<![\d.])(?:(?:₹|Rs\.?|INR|US\$|\$|USD|€|EUR|£|GBP)\s?\d+(?:\.\d{1,2})?(?![\d,])|\d{1,2}(?:,\d{2})+,\d{3}(?:\.\d{1,2})?|\d{1,3}(?:,\d{3})*(?:\.\d{1,2})?|\d+\.\d{1,2})(?!\d)/gi;
+  const currency = CurrencyDetector.detect(text);
+  const lines = text.split(/\n|\r/).map(l=>l.trim()).filter(Boolean);
+  let subtotal: number | undefined;
+  let taxes: number | undefined;
+  let grandTotal: number | undefined;
+  lines.forEach(l => {
+    if (/subtotal|उप-योग/i.test(l)) {
+      const m = l.match(moneyRegex);
+      if (m && m.length) subtotal = parseAmount(m[m.length-1]);
+    }
+    if (/tax|gst|कर/i.test(l)) {
+      const m = l.match(moneyRegex);
+      if (m && m.length) taxes = parseAmount(m[m.length-1]);
+    }
+    if (/grand\s*total|total\s*amount|कुल|कुल\s*राशि/i.test(l)) {
+      const m = l.match(moneyRegex);
+      if (m && m.length) grandTotal = parseAmount(m[m.length-1]);
+    }
+  });
+
+  // Items: prefer the table rebuilt from detection positions, otherwise look for
+  // lines containing qty x rate or with multiple numbers
+  const items: InvoiceStructuredItem[] = table?.items.length ? [...table.items] : [];
+  if (items.length === 0) {
+    lines.forEach(l => {
+      const nums = (l.match(moneyRegex) || []).map(parseAmount);
+      if (nums.length >= 2 && /qty|quantity|मात्रा|pcs|rate|दर|x/i.test(l)) {
+        const name = l.replace(moneyRegex, '').replace(/qty|quantity|मात्रा|pcs|rate|दर|x/ig,' ').replace(/\s{2,}/g,' ').trim();
+        const [n1, n2, n3] = nums;
+        const quantity = n1 && n2 && n3 ? Math.round((n3 / n2) || n1) : undefined;
+        items.push({ name, quantity, rate: n2, total: n3 });
+      }
+    });
+  }
+
+  const comments = extractAfter(/comments|टिप्पणी|remarks/i, 120);
+  const signatures: string[] = [];
+  if (/signature|हस्ताक्षर/i.test(text)) signatures.push('Signature Present');
+
+  return {
+    companyName,
+    address,
+    gstNumber,
+    date,
+    invoiceNumber,
+    customerId,
+    items,
+    subtotal,
+    taxes,
+    grandTotal,
+    currency: currency.assumed ? undefined : currency.currency,
+    comments,
+    signatures,
+    raw: resp
+  };
+};
+
+export function recognizeInvoiceImage(file: File): Promise<OcrResponse> {
+  return requestOcr(file, file.name);
+}
+
+/**
+ * OCR → heuristic parse (with the supplier profile of repeat vendors) → model
+ * structuring for one image or PDF, with the grand total checked against the
+ * amount in words. All pages of a PDF are merged into one invoice. OCR
+ * failures are thrown; a structuring failure falls back to the heuristic parse.
+ */
+export async function extractInvoice(
+  file: File,
+  onStage?: (stage: InvoiceExtractionStage) => void
+): Promise<ExtractedInvoice> {
+  onStage?.('ocr');
+  // Signed e-invoice QR values win over what OCR read; a failed scan just leaves OCR in charge
+  const qr = EInvoiceQr.scan(file).catch(() => null);
+  const json = isPdfFile(file)
+    ? (await PdfInvoiceReader.extract(file, recognizeInvoiceImage)).response
+    : await recognizeInvoiceImage(file);
+  const image = isPdfFile(file) ? undefined : file;
+  const table = InvoiceTableReconstructor.reconstruct(json.detections || []);
+  const parsed = parseOcrToInvoice(json, table);
+
+  // Repeat suppliers: read fields from learned positions and reuse confirmed names
+  const profile = SupplierProfileStore.match(json.full_text || '', parsed.gstNumber);
+  const heuristic = profile ? SupplierProfileStore.applyToHeuristic(parsed, profile, json.detections) : parsed;
+
+  const qrPayload = await qr;
+  const withQr = (invoice: ExtractedInvoice) => (qrPayload ? EInvoiceQr.apply(invoice, qrPayload) : invoice);
+
+  onStage?.('structuring');
+  try {
+    const structured = await structureInvoiceViaSonar({
+      full_text: json.full_text,
+      detections: json.detections,
+      heuristic,
+      itemSource: table?.items.length ? 'layout' : 'text'
+    }, {
+      supplierContext: profile ? SupplierProfileStore.promptContext(profile) : undefined
+    });
+    return withQr(AmountInWords.crossCheck({ ...structured, raw: json, fileName: file.name, image }, json.full_text || ''));
+  } catch {
+    return withQr(AmountInWords.crossCheck({ ...heuristic, raw: json, fileName: file.name, image }, json.full_text || ''));
+  }
+}
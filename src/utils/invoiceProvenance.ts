@@ -0,0 +1,176 @@
+import { FieldProvenance, InvoiceProvenance, OcrDetection } from '../types/invoice';
+import { InvoiceStructured, InvoiceStructuredItem } from './sonar';
+
+export const LOW_CONFIDENCE_THRESHOLD = 0.6;
+
+type HeuristicInvoice = Partial<Omit<InvoiceStructured, 'items'>> & { items?: InvoiceStructuredItem[] };
+
+export interface OcrEvidence {
+  fullText?: string;
+  detections?: OcrDetection[];
+  heuristic?: HeuristicInvoice;
+}
+
+const SCORED_FIELDS = [
+  'companyName', 'address', 'gstNumber', 'date', 'invoiceNumber', 'customerId', 'subtotal', 'taxes', 'grandTotal'
+] as const;
+
+const SCORED_ITEM_FIELDS = ['productId', 'name', 'quantity', 'rate', 'total'] as const;
+
+// Placeholders the prompt tells the model to generate when a value is missing
+const IMPUTED_VALUE_PATTERNS: RegExp[] = [/^CUST-UNKNOWN$/i, /^PROD-\d+$/i, /^INV-\d{11,}$/, /^N\/A$/i];
+
+const AGREEMENT_SCORE: Record<FieldProvenance['agreement'], number> = {
+  agree: 1,
+  'single-source': 0.6,
+  disagree: 0.2
+};
+
+export class ProvenanceTracker {
+  /**
+   * Records where each structured value came from and how far to trust it.
+   * Confidence blends the OCR confidence of the detections that contain the
+   * value with whether the regex heuristics and the final source agree.
+   */
+  static score(
+    invoice: InvoiceStructured,
+    evidence: OcrEvidence,
+    options: { source: 'llm' | 'ocr'; imputedPaths: string[] }
+  ): InvoiceProvenance {
+    const provenance: InvoiceProvenance = {};
+    const imputed = new Set(options.imputedPaths);
+    const heuristic = evidence.heuristic || {};
+
+    SCORED_FIELDS.forEach(field => {
+      provenance[field] = this.scoreField(
+        invoice[field], heuristic[field], evidence, options.source, imputed.has(field)
+      );
+    });
+
+    invoice.items.forEach((item, idx) => {
+      const heuristicItem = this.findHeuristicItem(item, idx, heuristic.items || []);
+      SCORED_ITEM_FIELDS.forEach(field => {
+        const path = `items[${idx}].${field}`;
+        provenance[path] = this.scoreField(
+          item[field], heuristicItem?.[field], evidence, options.source, imputed.has(path)
+        );
+      });
+    });
+
+    return provenance;
+  }
+
+  static needsReview(provenance?: FieldProvenance): boolean {
+    if (!provenance) return false;
+    return provenance.source === 'imputed' || provenance.confidence < LOW_CONFIDENCE_THRESHOLD;
+  }
+
+  private static scoreField(
+    value: string | number | undefined,
+    heuristicValue: string | number | undefined,
+    evidence: OcrEvidence,
+    source: 'llm' | 'ocr',
+    imputed: boolean
+  ): FieldProvenance {
+    const isBlank = value === undefined || value === '' || value === 'N/A';
+    if (imputed || isBlank || (typeof value === 'string' && IMPUTED_VALUE_PATTERNS.some(p => p.test(value)))) {
+      return { source: 'imputed', confidence: isBlank ? 0 : 0.1, agreement: 'single-source' };
+    }
+
+    const agreement: FieldProvenance['agreement'] =
+      heuristicValue === undefined || heuristicValue === '' ? 'single-source'
+        : this.sameValue(value, heuristicValue) ? 'agree' : 'disagree';
+
+    const ocrConfidence = this.ocrSupport(value, evidence);
+    const confidence = ocrConfidence > 0
+      ? 0.6 * ocrConfidence + 0.4 * AGREEMENT_SCORE[agreement]
+      : 0.5 * AGREEMENT_SCORE[agreement];
+
+    return {
+      source,
+      confidence: Math.round(Math.min(1, Math.max(0, confidence)) * 100) / 100,
+      agreement,
+      ocrConfidence: ocrConfidence > 0 ? ocrConfidence : undefined,
+      ocrValue: agreement === 'disagree' ? heuristicValue : undefined
+    };
+  }
+
+  /** Detections that contain the value, or together spell it out when the OCR split it across several. */
+  static supportingDetections(value: string | number, detections: OcrDetection[]): OcrDetection[] {
+    if (typeof value === 'number') {
+      return detections.filter(d => this.extractNumbers(d.text).some(n => Math.abs(n - value) < 0.005));
+    }
+
+    const target = this.normalizeText(value);
+    if (target.length < 2) return [];
+
+    const containing = detections.filter(d => this.normalizeText(d.text).includes(target));
+    if (containing.length > 0) return containing;
+
+    // Values the OCR split across several detections, e.g. wrapped addresses
+    const fragments = detections.filter(d => {
+      const text = this.normalizeText(d.text);
+      return text.length >= 3 && target.includes(text);
+    });
+    return this.coverage(target, fragments) >= 0.6 ? fragments : [];
+  }
+
+  /** Best OCR confidence among detections that literally contain the value, 0 when none do. */
+  private static ocrSupport(value: string | number, evidence: OcrEvidence): number {
+    const support = this.supportingDetections(value, evidence.detections || []);
+
+    if (typeof value === 'number') {
+      if (support.length > 0) return Math.max(...support.map(d => d.confidence));
+      return this.extractNumbers(evidence.fullText || '').some(n => Math.abs(n - value) < 0.005) ? 0.8 : 0;
+    }
+
+    const target = this.normalizeText(value);
+    if (target.length < 2) return 0;
+
+    if (support.some(d => this.normalizeText(d.text).includes(target))) {
+      return Math.max(...support.map(d => d.confidence));
+    }
+    if (support.length > 0) {
+      const avg = support.reduce((sum, d) => sum + d.confidence, 0) / support.length;
+      return avg * Math.min(1, this.coverage(target, support));
+    }
+
+    return this.normalizeText(evidence.fullText || '').includes(target) ? 0.8 : 0;
+  }
+
+  private static coverage(target: string, fragments: OcrDetection[]): number {
+    return fragments.reduce((sum, d) => sum + this.normalizeText(d.text).length, 0) / target.length;
+  }
+
+  private static findHeuristicItem(
+    item: InvoiceStructuredItem,
+    idx: number,
+    heuristicItems: InvoiceStructuredItem[]
+  ): InvoiceStructuredItem | undefined {
+    const name = this.normalizeText(item.name || '');
+    const byName = name.length >= 3
+      ? heuristicItems.find(h => {
+          const other = this.normalizeText(h.name || '');
+          return other.length >= 3 && (other.includes(name) || name.includes(other));
+        })
+      : undefined;
+    return byName || heuristicItems[idx];
+  }
+
+  private static sameValue(a: string | number, b: string | number): boolean {
+    if (typeof a === 'number' || typeof b === 'number') {
+      return Math.abs(Number(a) - Number(b)) < 0.01;
+    }
+    const left = this.normalizeText(a);
+    const right = this.normalizeText(b);
+    return left.length > 0 && right.length > 0 && (left.includes(right) || right.includes(left));
+  }
+
+  private static normalizeText(value: string): string {
+    return value.toLowerCase().replace(/[^\p{L}\p{N}]/gu, '');
+  }
+
+  private static extractNumbers(text: string): number[] {
+    return (text.match(/\d[\d,]*(?:\.\d+)?/g) || []).map(s => parseFloat(s.replace(/,/g, '')));
+  }
+}
@@ -0,0 +1,233 @@
+import { InvoiceCorrection, InvoiceDiscrepancy, ReconciliationReport } from '../types/invoice';
+import { InvoiceStructured, InvoiceStructuredItem } from './sonar';
+import { STANDARD_GST_RATES } from './gstTax';
+
+const ROUND_OFF_PATTERN = /round(?:ed|ing)?[\s_-]*off|rounding|राउंड\s*ऑफ/i;
+
+export type ReconcilableInvoice = Pick<InvoiceStructured, 'items' | 'subtotal' | 'taxes' | 'grandTotal' | 'discount'> & {
+  amountInWords?: number; // Grand total as printed in words
+};
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+// Absolute paisa tolerance, widened slightly for large amounts
+const close = (actual: number, expected: number) =>
+  Math.abs(actual - expected) <= Math.max(0.05, Math.abs(expected) * 0.0005);
+
+export class InvoiceReconciler {
+  /**
+   * Deterministically checks the arithmetic of an invoice: each line's
+   * quantity × rate (GST exclusive or inclusive), the subtotal, the tax total,
+   * bill discount, round-off, the grand total and the amount in words. Every
+   * mismatch is reported with the values involved and the corrections that
+   * would make it balance.
+   */
+  static reconcile(invoice: ReconcilableInvoice): ReconciliationReport {
+    const discrepancies: InvoiceDiscrepancy[] = [];
+    let taxableValue = 0;
+    let lineTotal = 0;
+    let lineTax = 0;
+    let roundOff = 0;
+    let hasGstInfo = false;
+    let inclusiveLines = 0;
+
+    invoice.items.forEach((item, idx) => {
+      const total = item.total ?? 0;
+
+      if (ROUND_OFF_PATTERN.test(item.name || '')) {
+        roundOff += total;
+        return;
+      }
+
+      const quantity = item.quantity ?? 0;
+      const rate = item.rate ?? 0;
+      const base = quantity * rate;
+      const gstAmount = this.lineGstAmount(item, base);
+      if (gstAmount > 0) hasGstInfo = true;
+
+      if (quantity <= 0 || rate <= 0) {
+        taxableValue += total;
+        lineTotal += total;
+        return;
+      }
+
+      if (close(total, base)) {
+        taxableValue += base;
+        lineTotal += total;
+        lineTax += gstAmount;
+        return;
+      }
+
+      if (gstAmount > 0 && close(total, base + gstAmount)) {
+        inclusiveLines++;
+        taxableValue += base;
+        lineTotal += total;
+        lineTax += gstAmount;
+        discrepancies.push({
+          type: 'gst_inclusive_line',
+          severity: 'info',
+          path: `items[${idx}].total`,
+          message: `Line ${idx + 1} total ${total.toFixed(2)} includes GST of ${gstAmount.toFixed(2)} on a taxable value of ${base.toFixed(2)}.`,
+          expected: round2(base),
+          actual: total,
+          difference: round2(total - base),
+          corrections: []
+        });
+        return;
+      }
+
+      taxableValue += total;
+      lineTotal += total;
+      lineTax += gstAmount;
+      discrepancies.push({
+        type: 'line_total_mismatch',
+        severity: 'error',
+        path: `items[${idx}].total`,
+        message: `Line ${idx + 1} (${item.name || 'item'}): ${quantity} × ${rate.toFixed(2)} = ${base.toFixed(2)}, but the line total reads ${total.toFixed(2)}.`,
+        expected: round2(base),
+        actual: total,
+        difference: round2(total - base),
+        corrections: this.lineCorrections(idx, quantity, rate, total, base)
+      });
+    });
+
+    const subtotal = invoice.subtotal ?? 0;
+    const taxes = invoice.taxes ?? 0;
+    const subtotalIncludesTax = inclusiveLines > 0 && close(subtotal, lineTotal) && !close(subtotal, taxableValue);
+
+    if (!close(subtotal, taxableValue) && !subtotalIncludesTax) {
+      discrepancies.push({
+        type: 'subtotal_mismatch',
+        severity: 'error',
+        path: 'subtotal',
+        message: `Subtotal ${subtotal.toFixed(2)} does not match the sum of line amounts ${taxableValue.toFixed(2)}.`,
+        expected: round2(taxableValue),
+        actual: subtotal,
+        difference: round2(subtotal - taxableValue),
+        corrections: [{ path: 'subtotal', value: round2(taxableValue), label: 'Use sum of line amounts' }]
+      });
+    }
+
+    const expectedTax = hasGstInfo ? round2(lineTax) : taxes;
+    if (hasGstInfo && !subtotalIncludesTax && !close(taxes, expectedTax)) {
+      discrepancies.push({
+        type: 'tax_mismatch',
+        severity: 'warning',
+        path: 'taxes',
+        message: `Tax total ${taxes.toFixed(2)} differs from the GST computed on the lines (${expectedTax.toFixed(2)}).`,
+        expected: expectedTax,
+        actual: taxes,
+        difference: round2(taxes - expectedTax),
+        corrections: [{ path: 'taxes', value: expectedTax, label: 'Use GST computed from lines' }]
+      });
+    }
+
+    const grandTotal = invoice.grandTotal ?? 0;
+    const discount = invoice.discount ?? 0;
+    const expectedGrand = round2((subtotalIncludesTax ? subtotal : subtotal + taxes) - discount + roundOff);
+    const grandDiff = round2(grandTotal - expectedGrand);
+
+    if (!close(grandTotal, expectedGrand)) {
+      if (Math.abs(grandDiff) < 1 && close(grandTotal, Math.round(expectedGrand))) {
+        discrepancies.push({
+          type: 'round_off',
+          severity: 'info',
+          path: 'grandTotal',
+          message: `Grand total is rounded to the nearest rupee (round-off ${grandDiff >= 0 ? '+' : ''}${grandDiff.toFixed(2)}).`,
+          expected: expectedGrand,
+          actual: grandTotal,
+          difference: grandDiff,
+          corrections: []
+        });
+        roundOff = round2(roundOff + grandDiff);
+      } else {
+        discrepancies.push({
+          type: 'grand_total_mismatch',
+          severity: 'error',
+          path: 'grandTotal',
+          message: `Grand total ${grandTotal.toFixed(2)} does not equal ${subtotalIncludesTax ? 'subtotal' : 'subtotal + taxes'}${discount ? ' - discount' : ''}${roundOff ? ' + round-off' : ''} = ${expectedGrand.toFixed(2)}.`,
+          expected: expectedGrand,
+          actual: grandTotal,
+          difference: grandDiff,
+          corrections: [{ path: 'grandTotal', value: expectedGrand, label: 'Use computed grand total' }]
+        });
+      }
+    }
+
+    if (invoice.amountInWords !== undefined && Math.abs(grandTotal - invoice.amountInWords) >= 1) {
+      discrepancies.push({
+        type: 'amount_in_words_mismatch',
+        severity: 'warning',
+        path: 'grandTotal',
+        message: `Grand total ${grandTotal.toFixed(2)} differs from the amount in words (${invoice.amountInWords.toFixed(2)}).`,
+        expected: invoice.amountInWords,
+        actual: grandTotal,
+        difference: round2(grandTotal - invoice.amountInWords),
+        corrections: [{ path: 'grandTotal', value: invoice.amountInWords, label: 'Use amount in words' }]
+      });
+    }
+
+    return {
+      discrepancies,
+      hasErrors: discrepancies.some(d => d.severity === 'error'),
+      computed: {
+        taxableValue: round2(taxableValue),
+        lineTotal: round2(lineTotal),
+        taxes: expectedTax,
+        roundOff: round2(roundOff),
+        grandTotal: round2(taxableValue + expectedTax - discount + roundOff)
+      }
+    };
+  }
+
+  static isRoundOffLine(item: InvoiceStructuredItem): boolean {
+    return ROUND_OFF_PATTERN.test(item.name || '');
+  }
+
+  /**
+   * GST on a line: printed CGST/SGST/IGST first, then gstRate, then the legacy
+   * `gst` value, read as a percentage when it is a standard slab and otherwise
+   * as an amount.
+   */
+  private static lineGstAmount(item: InvoiceStructuredItem, base: number): number {
+    const components = (item.cgst ?? 0) + (item.sgst ?? 0) + (item.igst ?? 0);
+    if (components > 0) return round2(components);
+    if (item.gstRate !== undefined) return round2((base * item.gstRate) / 100);
+    const gst = item.gst ?? 0;
+    if (gst <= 0) return 0;
+    return STANDARD_GST_RATES.includes(gst) ? round2((base * gst) / 100) : gst;
+  }
+
+  private static lineCorrections(
+    idx: number,
+    quantity: number,
+    rate: number,
+    total: number,
+    base: number
+  ): InvoiceCorrection[] {
+    const corrections: InvoiceCorrection[] = [
+      { path: `items[${idx}].total`, value: round2(base), label: `Set total to ${base.toFixed(2)}` }
+    ];
+
+    // A whole-number quantity that explains the printed total is the most common OCR slip
+    const impliedQuantity = total / rate;
+    if (Math.abs(impliedQuantity - Math.round(impliedQuantity)) < 0.001 && Math.round(impliedQuantity) !== quantity && impliedQuantity > 0) {
+      corrections.unshift({
+        path: `items[${idx}].quantity`,
+        value: Math.round(impliedQuantity),
+        label: `Set quantity to ${Math.round(impliedQuantity)}`
+      });
+    }
+
+    const impliedRate = total / quantity;
+    if (Math.abs(impliedRate - round2(impliedRate)) < 0.0001 && !close(impliedRate, rate)) {
+      corrections.push({
+        path: `items[${idx}].rate`,
+        value: round2(impliedRate),
+        label: `Set rate to ${round2(impliedRate).toFixed(2)}`
+      });
+    }
+
+    return corrections;
+  }
+}
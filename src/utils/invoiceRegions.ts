@@ -0,0 +1,71 @@
+import { OcrDetection } from '../types/invoice';
+import { recognizeInvoiceImage } from './invoicePipeline';
+
+/** x0, y0, x1, y1 in image pixels, like OCR bounding boxes. */
+export type Region = [number, number, number, number];
+
+// Blank margin kept around a cropped region so edge characters are read whole
+const CROP_PADDING = 8;
+
+export class InvoiceRegions {
+  /** Detections whose centre lies inside the region, in reading order. */
+  static detectionsIn(region: Region, detections: OcrDetection[]): OcrDetection[] {
+    return this.linesIn(region, detections).flat();
+  }
+
+  /** Text of the detections inside the region, one line per row of detections. */
+  static textIn(region: Region, detections: OcrDetection[]): string {
+    return this.linesIn(region, detections)
+      .map(line => line.map(d => d.text.trim()).join(' '))
+      .join('\n');
+  }
+
+  /** Reads the region again by sending just that part of the image to OCR. */
+  static async recognize(image: Blob, region: Region, fileName = 'region.png'): Promise<string> {
+    const response = await recognizeInvoiceImage(await this.crop(image, region, fileName));
+    return (response.full_text || response.detections?.map(d => d.text).join('\n') || '').trim();
+  }
+
+  static async crop(image: Blob, region: Region, fileName: string): Promise<File> {
+    const bitmap = await createImageBitmap(image, { imageOrientation: 'from-image' });
+    const x0 = Math.max(0, Math.floor(region[0]) - CROP_PADDING);
+    const y0 = Math.max(0, Math.floor(region[1]) - CROP_PADDING);
+    const x1 = Math.min(bitmap.width, Math.ceil(region[2]) + CROP_PADDING);
+    const y1 = Math.min(bitmap.height, Math.ceil(region[3]) + CROP_PADDING);
+
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, x1 - x0);
+    canvas.height = Math.max(1, y1 - y0);
+    const context = canvas.getContext('2d');
+    if (!context) throw new Error('Canvas is not available to crop the image');
+    context.drawImage(bitmap, x0, y0, canvas.width, canvas.height, 0, 0, canvas.width, canvas.height);
+    bitmap.close();
+
+    const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+    if (!blob) throw new Error('Could not crop the selected region');
+    return new File([blob], fileName, { type: 'image/png' });
+  }
+
+  /** Rows of detections inside the region, top to bottom, each read left to right. */
+  private static linesIn(region: Region, detections: OcrDetection[]): OcrDetection[][] {
+    const [x0, y0, x1, y1] = region;
+    const centreY = (d: OcrDetection) => (d.bbox![1] + d.bbox![3]) / 2;
+    const inside = detections
+      .filter(d => {
+        if (!d.bbox) return false;
+        const cx = (d.bbox[0] + d.bbox[2]) / 2;
+        const cy = centreY(d);
+        return cx >= x0 && cx <= x1 && cy >= y0 && cy <= y1;
+      })
+      .sort((a, b) => centreY(a) - centreY(b));
+
+    // A detection joins the row above when its centre falls within that row's first box
+    const lines: OcrDetection[][] = [];
+    inside.forEach(detection => {
+      const line = lines[lines.length - 1];
+      if (line && centreY(detection) <= line[0].bbox![3]) line.push(detection);
+      else lines.push([detection]);
+    });
+    return lines.map(line => line.sort((a, b) => a.bbox![0] - b.bbox![0]));
+  }
+}
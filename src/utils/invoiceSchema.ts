@@ -0,0 +1,199 @@
+import { InvoiceFieldError } from '../types/invoice';
+import { InvoiceStructured, InvoiceStructuredItem } from './sonar';
+import { GstinValidator } from './gstinValidator';
+
+type FieldKind = 'string' | 'number' | 'stringArray';
+
+interface FieldSpec {
+  kind: FieldKind;
+  validate?: (value: string | number) => string | null;
+  keepInvalid?: boolean; // Keep a value that fails validation so the reviewer can correct it
+}
+
+// Fields the model is asked to produce; metadata we attach afterwards is excluded
+type LlmInvoiceField = Exclude<keyof InvoiceStructured, 'items' | 'fieldErrors' | 'provenance' | 'supplyType' | 'amountInWords'>;
+
+const nonNegative = (value: string | number) =>
+  typeof value === 'number' && value < 0 ? 'must not be negative' : null;
+
+const gstinStructure = (value: string | number) => GstinValidator.validate(String(value)).structureValid
+  ? null
+  : 'must be a 15-character GSTIN (2-digit state code, 10-character PAN, entity code, Z, check character)';
+
+const DATE_PATTERN = /^(\d{4}-\d{2}-\d{2}|\d{1,2}[/.-]\d{1,2}[/.-]\d{2,4}|\d{1,2}\s+\S+\s+\d{2,4})/;
+
+export const INVOICE_FIELD_SPECS: Record<LlmInvoiceField, FieldSpec> = {
+  companyName: { kind: 'string' },
+  address: { kind: 'string' },
+  gstNumber: { kind: 'string', validate: gstinStructure, keepInvalid: true },
+  buyerGstin: { kind: 'string', validate: gstinStructure, keepInvalid: true },
+  date: {
+    kind: 'string',
+    validate: value => DATE_PATTERN.test(String(value)) ? null : 'must be a date in dd/mm/yyyy or yyyy-mm-dd format'
+  },
+  invoiceNumber: { kind: 'string' },
+  customerId: { kind: 'string' },
+  subtotal: { kind: 'number', validate: nonNegative },
+  taxes: { kind: 'number', validate: nonNegative },
+  discount: { kind: 'number', validate: nonNegative },
+  grandTotal: { kind: 'number', validate: nonNegative },
+  currency: {
+    kind: 'string',
+    validate: value => /^[A-Z]{3}$/.test(String(value).trim().toUpperCase()) ? null : 'must be a 3-letter ISO 4217 currency code'
+  },
+  comments: { kind: 'string' },
+  signatures: { kind: 'stringArray' }
+};
+
+export const INVOICE_ITEM_FIELD_SPECS: Record<keyof InvoiceStructuredItem, FieldSpec> = {
+  productId: { kind: 'string' },
+  name: { kind: 'string' },
+  quantity: { kind: 'number', validate: nonNegative },
+  rate: { kind: 'number', validate: nonNegative },
+  gst: { kind: 'number', validate: nonNegative },
+  total: { kind: 'number' }, // Round-off and discount lines may be negative
+  hsnSac: {
+    kind: 'string',
+    validate: value => /^\d{4,8}$/.test(String(value).replace(/\s/g, '')) ? null : 'must be a 4–8 digit HSN/SAC code'
+  },
+  taxableValue: { kind: 'number', validate: nonNegative },
+  gstRate: {
+    kind: 'number',
+    validate: value => typeof value === 'number' && (value < 0 || value > 28) ? 'must be a GST rate between 0 and 28' : null
+  },
+  cgst: { kind: 'number', validate: nonNegative },
+  sgst: { kind: 'number', validate: nonNegative },
+  igst: { kind: 'number', validate: nonNegative }
+};
+
+export interface InvoiceSchemaResult {
+  value: Partial<InvoiceStructured>;
+  fieldErrors: InvoiceFieldError[];
+}
+
+const MISSING = Symbol('missing');
+
+export class InvoiceSchema {
+  /**
+   * Validates a parsed model response field by field. Valid and safely coercible
+   * values are kept, absent fields are left for imputation, and everything else
+   * is reported in fieldErrors so it can be repaired or reviewed. A malformed
+   * GSTIN is reported but kept, since it is usually one misread character.
+   */
+  static validate(raw: unknown): InvoiceSchemaResult {
+    const fieldErrors: InvoiceFieldError[] = [];
+
+    if (!this.isRecord(raw)) {
+      return { value: {}, fieldErrors: [{ path: '$', message: 'response must be a JSON object', value: raw }] };
+    }
+
+    const value: Record<string, unknown> = {};
+    (Object.keys(INVOICE_FIELD_SPECS) as LlmInvoiceField[]).forEach(field => {
+      const result = this.checkField(raw[field], INVOICE_FIELD_SPECS[field], field, fieldErrors);
+      if (result !== MISSING) value[field] = result;
+    });
+
+    if (raw.items !== undefined && raw.items !== null) {
+      if (!Array.isArray(raw.items)) {
+        fieldErrors.push({ path: 'items', message: 'must be an array of line items', value: raw.items });
+      } else {
+        value.items = raw.items.map((item, idx) => {
+          const itemValue: Record<string, unknown> = {};
+          if (!this.isRecord(item)) {
+            fieldErrors.push({ path: `items[${idx}]`, message: 'must be an object', value: item });
+            return itemValue;
+          }
+          (Object.keys(INVOICE_ITEM_FIELD_SPECS) as Array<keyof InvoiceStructuredItem>).forEach(field => {
+            const result = this.checkField(item[field], INVOICE_ITEM_FIELD_SPECS[field], `items[${idx}].${field}`, fieldErrors);
+            if (result !== MISSING) itemValue[field] = result;
+          });
+          return itemValue;
+        });
+      }
+    }
+
+    return { value: value as Partial<InvoiceStructured>, fieldErrors };
+  }
+
+  /** Extracts a JSON value from model output that may carry code fences or prose. */
+  static parseJson(content: string): unknown {
+    const stripped = content.replace(/```json\n?/g, '').replace(/```\n?/g, '').trim();
+    try {
+      return JSON.parse(stripped);
+    } catch {
+      const start = stripped.indexOf('{');
+      const end = stripped.lastIndexOf('}');
+      if (start === -1 || end <= start) throw new Error('no JSON object found');
+      return JSON.parse(stripped.slice(start, end + 1));
+    }
+  }
+
+  /** Writes a value at a path such as "items[2].rate", creating containers as needed. */
+  static setPath(target: Record<string, unknown>, path: string, value: unknown): void {
+    const keys = path.replace(/\[(\d+)\]/g, '.$1').split('.').filter(Boolean);
+    let node: Record<string, unknown> | unknown[] = target;
+    keys.forEach((key, idx) => {
+      const container = node as Record<string, unknown>;
+      if (idx === keys.length - 1) {
+        container[key] = value;
+        return;
+      }
+      if (typeof container[key] !== 'object' || container[key] === null) {
+        container[key] = /^\d+$/.test(keys[idx + 1]) ? [] : {};
+      }
+      node = container[key] as Record<string, unknown>;
+    });
+  }
+
+  private static checkField(
+    raw: unknown,
+    spec: FieldSpec,
+    path: string,
+    fieldErrors: InvoiceFieldError[]
+  ): unknown {
+    if (raw === undefined || raw === null || raw === '' || raw === 'N/A') return MISSING;
+
+    let coerced: string | number | string[] | null = null;
+    switch (spec.kind) {
+      case 'number':
+        coerced = this.toNumber(raw);
+        if (coerced === null) {
+          fieldErrors.push({ path, message: 'must be a number', value: raw });
+          return MISSING;
+        }
+        break;
+      case 'string':
+        if (typeof raw === 'string') coerced = raw.trim();
+        else if (typeof raw === 'number' || typeof raw === 'boolean') coerced = String(raw);
+        else {
+          fieldErrors.push({ path, message: 'must be a string', value: raw });
+          return MISSING;
+        }
+        break;
+      case 'stringArray':
+        if (!Array.isArray(raw) || raw.some(v => typeof v === 'object' && v !== null)) {
+          fieldErrors.push({ path, message: 'must be an array of strings', value: raw });
+          return MISSING;
+        }
+        return raw.map(v => String(v));
+    }
+
+    const problem = spec.validate?.(coerced);
+    if (problem) {
+      fieldErrors.push({ path, message: problem, value: raw });
+      return spec.keepInvalid ? coerced : MISSING;
+    }
+    return coerced;
+  }
+
+  private static toNumber(raw: unknown): number | null {
+    if (typeof raw === 'number') return Number.isFinite(raw) ? raw : null;
+    if (typeof raw !== 'string') return null;
+    const cleaned = raw.replace(/[₹$€£,\s]|Rs\.?|INR/gi, '');
+    return /^-?\d+(\.\d+)?$/.test(cleaned) ? parseFloat(cleaned) : null;
+  }
+
+  private static isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+}
@@ -0,0 +1,305 @@
+import { OcrDetection } from '../types/invoice';
+import { InvoiceStructuredItem } from './sonar';
+
+export type TableColumnKind = 'serial' | 'name' | 'hsn' | 'quantity' | 'unit' | 'rate' | 'gstRate' | 'taxable' | 'amount';
+
+export interface TableColumn {
+  kind: TableColumnKind;
+  header: string;
+  x0: number;
+  x1: number;
+}
+
+export interface ReconstructedTable {
+  page?: number;
+  columns: TableColumn[];
+  items: InvoiceStructuredItem[];
+}
+
+interface Cell {
+  text: string;
+  x0: number;
+  x1: number;
+  y0: number;
+  y1: number;
+  confidence: number;
+  numeric: boolean;
+}
+
+// Checked in order, so more specific headers ("Taxable Value", "GST %") win over generic ones
+const HEADER_PATTERNS: Array<[TableColumnKind, RegExp]> = [
+  ['serial', /^(s\.?\s*no\.?|sr\.?\s*no\.?|sl\.?|#|क्रम|क्र\.?\s*सं\.?)$/i],
+  ['hsn', /hsn|sac|एचएसएन/i],
+  ['taxable', /taxable|कर\s*योग्य/i],
+  ['gstRate', /(gst|tax|igst|कर)\s*(%|rate|दर)|^%$/i],
+  ['quantity', /^(qty|quantity|मात्रा|नग|pcs|nos?)\.?$/i],
+  ['unit', /^(unit|uom|इकाई)$/i],
+  ['rate', /^(rate|price|unit\s*(price|rate)|mrp|दर|मूल्य|भाव)\.?$/i],
+  ['amount', /^(amount|amt\.?|total|total\s+amount|value|कुल|राशि|रकम)$/i],
+  ['name', /description|particulars|item|product|goods|विवरण|सामान|वस्तु|नाम/i]
+];
+
+// Multi-word labels that name a single column, tried before splitting on spaces
+const HEADER_TOKEN_PATTERN = /unit\s+(?:price|rate)|taxable\s+(?:value|amount|amt\.?)|total\s+amount|(?:gst|tax|igst)\s*(?:%|rate)|item\s+(?:description|name)|description\s+of\s+goods|hsn\s*\/\s*sac|s(?:r|l)?\.?\s*no\.?|\S+/gi;
+
+const UNIT_PATTERN = /^(pcs?|nos?|kgs?|gms?|g|ltrs?|l|ml|mtrs?|m|box(es)?|bags?|pkts?|dozen|doz|set|pair|नग|किलो|लीटर|पैकेट)\.?$/i;
+
+// Rows that close the item table
+const TABLE_END_PATTERN = /sub\s*-?\s*total|grand\s*total|total\s*amount|उप-?\s*योग|कुल\s*(योग|राशि)|^(cgst|sgst|igst)\b|round\s*off|amount\s*in\s*words/i;
+
+const FIGURE_COLUMNS: TableColumnKind[] = ['quantity', 'rate', 'gstRate', 'taxable', 'amount'];
+
+const DEVANAGARI_DIGITS = '०१२३४५६७८९';
+
+const toWesternDigits = (text: string) =>
+  text.replace(/[०-९]/g, d => String(DEVANAGARI_DIGITS.indexOf(d)));
+
+const NUMBER_PATTERN = /^[₹(]?(?:rs\.?)?-?\d[\d,]*(?:\.\d+)?%?\)?$/i;
+
+export class InvoiceTableReconstructor {
+  /**
+   * Rebuilds the line-item table from detection geometry: detections are
+   * split into cells, clustered into rows by vertical position, the header row
+   * is found by its labels, and every following row is read column by column
+   * until a totals row ends the table. Returns null when no table header is
+   * found or detections carry no positions.
+   */
+  static reconstruct(detections: OcrDetection[]): ReconstructedTable | null {
+    const positioned = detections.filter(d => d.bbox && d.text.trim());
+    if (positioned.length === 0) return null;
+
+    const pages = [...new Set(positioned.map(d => d.page ?? 1))].sort((a, b) => a - b);
+    const tables = pages
+      .map(page => this.reconstructPage(positioned.filter(d => (d.page ?? 1) === page), page))
+      .filter((table): table is ReconstructedTable => table !== null);
+    if (tables.length === 0) return null;
+
+    // Multi-page invoices repeat the header; items continue across pages
+    return { page: tables[0].page, columns: tables[0].columns, items: tables.flatMap(table => table.items) };
+  }
+
+  private static reconstructPage(detections: OcrDetection[], page: number): ReconstructedTable | null {
+    const rows = this.clusterRows(detections.flatMap(d => this.splitCells(d)));
+
+    const headerIndex = rows.findIndex(row => this.headerColumns(row) !== null);
+    if (headerIndex === -1) return null;
+    const columns = this.headerColumns(rows[headerIndex])!;
+
+    const items: InvoiceStructuredItem[] = [];
+    for (const row of rows.slice(headerIndex + 1)) {
+      const rowText = row.map(cell => cell.text).join(' ');
+      if (TABLE_END_PATTERN.test(rowText.trim())) break;
+
+      const byColumn = this.assignColumns(row, columns);
+      const hasNumbers = row.some(cell => cell.numeric);
+
+      // A row without figures is a wrapped description line of the previous item
+      if (!hasNumbers) {
+        const last = items[items.length - 1];
+        const continuation = (byColumn.get('name') || row.map(cell => cell.text)).join(' ');
+        if (last && continuation) last.name = `${last.name || ''} ${continuation}`.trim();
+        continue;
+      }
+
+      const item = this.buildItem(byColumn, row);
+      if (item) items.push(item);
+    }
+
+    return items.length > 0 ? { page, columns, items } : null;
+  }
+
+  /**
+   * Splits a detection into word cells with positions interpolated from its
+   * box, then merges neighbouring words back into phrases so product names
+   * stay whole while every number becomes its own cell.
+   */
+  private static splitCells(detection: OcrDetection): Cell[] {
+    const [x0, y0, x1, y1] = detection.bbox!;
+    const text = toWesternDigits(detection.text);
+    const charWidth = (x1 - x0) / Math.max(1, text.length);
+
+    const words: Cell[] = [];
+    const wordPattern = /\S+/g;
+    let match: RegExpExecArray | null;
+    while ((match = wordPattern.exec(text)) !== null) {
+      words.push({
+        text: match[0],
+        x0: x0 + match.index * charWidth,
+        x1: x0 + (match.index + match[0].length) * charWidth,
+        y0,
+        y1,
+        confidence: detection.confidence,
+        numeric: NUMBER_PATTERN.test(match[0])
+      });
+    }
+
+    const cells: Cell[] = [];
+    words.forEach(word => {
+      const prev = cells[cells.length - 1];
+      const gap = prev ? word.x0 - prev.x1 : Infinity;
+      if (prev && !prev.numeric && !word.numeric && gap <= charWidth * 1.5) {
+        prev.text = `${prev.text} ${word.text}`;
+        prev.x1 = word.x1;
+      } else {
+        cells.push({ ...word });
+      }
+    });
+    return cells;
+  }
+
+  /** Groups cells whose vertical centres lie within half a line height of each other, top to bottom. */
+  private static clusterRows(cells: Cell[]): Cell[][] {
+    const heights = cells.map(c => c.y1 - c.y0).filter(h => h > 0).sort((a, b) => a - b);
+    const lineHeight = heights[Math.floor(heights.length / 2)] || 10;
+    const center = (c: Cell) => (c.y0 + c.y1) / 2;
+
+    const rows: Array<{ center: number; cells: Cell[] }> = [];
+    [...cells].sort((a, b) => center(a) - center(b)).forEach(cell => {
+      const row = rows[rows.length - 1];
+      if (row && Math.abs(center(cell) - row.center) <= lineHeight * 0.5) {
+        row.cells.push(cell);
+        row.center = row.cells.reduce((sum, c) => sum + center(c), 0) / row.cells.length;
+      } else {
+        rows.push({ center: center(cell), cells: [cell] });
+      }
+    });
+
+    return rows.map(row => row.cells.sort((a, b) => a.x0 - b.x0));
+  }
+
+  /** Column layout of a header row, or null when the row does not look like an item table header. */
+  private static headerColumns(row: Cell[]): TableColumn[] | null {
+    const columns: TableColumn[] = [];
+    // Header labels like "Item Qty Rate" may arrive merged into one cell
+    const words = row.flatMap(cell => this.splitHeaderCell(cell));
+
+    words.forEach(word => {
+      const kind = HEADER_PATTERNS.find(([, pattern]) => pattern.test(word.text.trim()))?.[0];
+      if (!kind) return;
+      const existing = columns.find(column => column.kind === kind);
+      if (existing) {
+        // A second label for the same column, e.g. "Amount (₹)" split by OCR: widen it
+        existing.x1 = Math.max(existing.x1, word.x1);
+        return;
+      }
+      columns.push({ kind, header: word.text, x0: word.x0, x1: word.x1 });
+    });
+
+    const kinds = new Set(columns.map(column => column.kind));
+    const figures = ['quantity', 'rate', 'amount', 'taxable'].filter(kind => kinds.has(kind as TableColumnKind)).length;
+    if (figures < 2 && !(figures === 1 && kinds.has('name'))) return null;
+    return columns.sort((a, b) => a.x0 - b.x0);
+  }
+
+  private static splitHeaderCell(cell: Cell): Cell[] {
+    const charWidth = (cell.x1 - cell.x0) / Math.max(1, cell.text.length);
+    return [...cell.text.matchAll(HEADER_TOKEN_PATTERN)].map(match => ({
+      ...cell,
+      text: match[0],
+      x0: cell.x0 + (match.index ?? 0) * charWidth,
+      x1: cell.x0 + ((match.index ?? 0) + match[0].length) * charWidth
+    }));
+  }
+
+  /**
+   * Assigns text cells to the header column they overlap most, or the nearest
+   * one. Numbers are aligned to the figure columns in reading order, so a row
+   * whose figures drift under a neighbouring header still maps one number per
+   * column, left to right.
+   */
+  private static assignColumns(row: Cell[], columns: TableColumn[]): Map<TableColumnKind, string[]> {
+    const byColumn = new Map<TableColumnKind, string[]>();
+    const add = (kind: TableColumnKind, text: string) => byColumn.set(kind, [...(byColumn.get(kind) || []), text]);
+    const centre = (x0: number, x1: number) => (x0 + x1) / 2;
+
+    const nearest = (cell: Cell) => columns
+      .map(column => ({
+        kind: column.kind,
+        overlap: Math.min(cell.x1, column.x1) - Math.max(cell.x0, column.x0),
+        distance: Math.abs(centre(cell.x0, cell.x1) - centre(column.x0, column.x1))
+      }))
+      .sort((a, b) => Math.max(0, b.overlap) - Math.max(0, a.overlap) || a.distance - b.distance)[0].kind;
+
+    const figureColumns = columns.filter(column => FIGURE_COLUMNS.includes(column.kind));
+    const figures: Cell[] = [];
+
+    row.forEach(cell => {
+      const kind = nearest(cell);
+      if (cell.numeric && FIGURE_COLUMNS.includes(kind)) figures.push(cell);
+      // Text never belongs in a figure column; it is part of the description
+      else if (!cell.numeric && FIGURE_COLUMNS.includes(kind)) add(UNIT_PATTERN.test(cell.text) ? 'unit' : 'name', cell.text);
+      else add(kind, cell.text);
+    });
+
+    this.alignFigures(figures, figureColumns).forEach((kind, idx) => add(kind, figures[idx].text));
+    return byColumn;
+  }
+
+  /** Order-preserving assignment of numbers to columns with the least total horizontal distance. */
+  private static alignFigures(figures: Cell[], columns: TableColumn[]): TableColumnKind[] {
+    const n = figures.length;
+    const m = columns.length;
+    if (n === 0) return [];
+    if (n > m) {
+      // More numbers than columns: fall back to the nearest column each
+      return figures.map(cell => columns.reduce((best, column) =>
+        Math.abs((column.x0 + column.x1) / 2 - (cell.x0 + cell.x1) / 2) < Math.abs((best.x0 + best.x1) / 2 - (cell.x0 + cell.x1) / 2)
+          ? column : best).kind);
+    }
+
+    const cost = (i: number, j: number) =>
+      Math.abs((figures[i].x0 + figures[i].x1) / 2 - (columns[j].x0 + columns[j].x1) / 2);
+
+    // best[i][j]: least cost of placing the first i figures within the first j columns
+    const best = Array.from({ length: n + 1 }, () => new Array<number>(m + 1).fill(Infinity));
+    for (let j = 0; j <= m; j++) best[0][j] = 0;
+    for (let i = 1; i <= n; i++) {
+      for (let j = i; j <= m; j++) {
+        best[i][j] = Math.min(best[i][j - 1], best[i - 1][j - 1] + cost(i - 1, j - 1));
+      }
+    }
+
+    const kinds: TableColumnKind[] = new Array(n);
+    for (let i = n, j = m; i > 0; j--) {
+      if (best[i][j] === best[i][j - 1] && j - 1 >= i) continue;
+      kinds[i - 1] = columns[j - 1].kind;
+      i--;
+    }
+    return kinds;
+  }
+
+  private static buildItem(byColumn: Map<TableColumnKind, string[]>, row: Cell[]): InvoiceStructuredItem | null {
+    const number = (kind: TableColumnKind) => {
+      const values = byColumn.get(kind);
+      if (!values) return undefined;
+      return values.map(value => this.parseNumber(value)).filter(n => n !== undefined).pop();
+    };
+
+    let name = (byColumn.get('name') || []).join(' ').trim();
+    if (!name) {
+      name = row.filter(cell => !cell.numeric && !UNIT_PATTERN.test(cell.text)).map(cell => cell.text).join(' ').trim();
+    }
+    // Drop a serial number that landed in the description column
+    name = name.replace(/^\d{1,3}[.)]?\s+/, '');
+
+    const hsn = (byColumn.get('hsn') || []).join('').replace(/\D/g, '');
+    const item: InvoiceStructuredItem = {
+      name: name || undefined,
+      hsnSac: hsn.length >= 4 ? hsn : undefined,
+      quantity: number('quantity'),
+      rate: number('rate'),
+      gstRate: number('gstRate'),
+      taxableValue: number('taxable'),
+      total: number('amount') ?? number('taxable')
+    };
+
+    if (item.quantity === undefined && item.rate === undefined && item.total === undefined) return null;
+    return item;
+  }
+
+  private static parseNumber(text: string): number | undefined {
+    const cleaned = toWesternDigits(text).replace(/[₹,%()\s]|rs\.?/gi, '');
+    if (!/^-?\d+(\.\d+)?$/.test(cleaned)) return undefined;
+    return parseFloat(cleaned);
+  }
+}
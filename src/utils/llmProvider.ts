@@ -0,0 +1,321 @@
+export type LLMRole = 'system' | 'user' | 'assistant';
+
+export interface LLMMessage {
+  role: LLMRole;
+  content: string;
+}
+
+export type LLMTask = 'cleaning-summary' | 'invoice-structuring' | 'invoice-repair' | 'data-chat';
+
+export interface LLMRequest {
+  task: LLMTask;
+  messages: LLMMessage[];
+  maxTokens?: number;
+  temperature?: number;
+}
+
+export interface LLMResponse {
+  content: string;
+  provider: string;
+  model: string;
+}
+
+export interface LLMProvider {
+  readonly name: string;
+  readonly model: string;
+  complete(request: LLMRequest, signal?: AbortSignal): Promise<LLMResponse>;
+}
+
+export type LLMErrorKind =
+  | 'not_configured'
+  | 'auth'
+  | 'rate_limit'
+  | 'server'
+  | 'bad_request'
+  | 'network'
+  | 'timeout'
+  | 'invalid_response';
+
+const RETRYABLE_KINDS: LLMErrorKind[] = ['rate_limit', 'server', 'network', 'timeout'];
+
+export class LLMError extends Error {
+  readonly kind: LLMErrorKind;
+  readonly status?: number;
+  readonly provider?: string;
+
+  constructor(kind: LLMErrorKind, message: string, options: { status?: number; provider?: string } = {}) {
+    super(message);
+    this.name = 'LLMError';
+    this.kind = kind;
+    this.status = options.status;
+    this.provider = options.provider;
+  }
+
+  get retryable(): boolean {
+    return RETRYABLE_KINDS.includes(this.kind);
+  }
+
+  static fromStatus(status: number, statusText: string, provider: string): LLMError {
+    const message = `${provider} request failed with status ${status}${statusText ? `: ${statusText}` : ''}`;
+    if (status === 401 || status === 403) return new LLMError('auth', message, { status, provider });
+    if (status === 429) return new LLMError('rate_limit', message, { status, provider });
+    if (status >= 500) return new LLMError('server', message, { status, provider });
+    return new LLMError('bad_request', message, { status, provider });
+  }
+}
+
+// ===== Adapters =====
+
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name: string;
+  readonly model: string;
+  private readonly baseUrl: string;
+  private readonly apiKey?: string;
+
+  constructor(options: { baseUrl: string; model: string; apiKey?: string; name?: string }) {
+    this.baseUrl = options.baseUrl.replace(/\/+$/, '');
+    this.model = options.model;
+    this.apiKey = options.apiKey;
+    this.name = options.name || 'openai-compatible';
+  }
+
+  async complete(request: LLMRequest, signal?: AbortSignal): Promise<LLMResponse> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.apiKey) headers['Authorization'] = `Bearer ${this.apiKey}`;
+
+    let response: Response;
+    try {
+      response = await fetch(`${this.baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+          model: this.model,
+          messages: request.messages,
+          max_tokens: request.maxTokens,
+          temperature: request.temperature
+        }),
+        signal
+      });
+    } catch (error) {
+      if (signal?.aborted) throw new LLMError('timeout', `${this.name} request timed out`, { provider: this.name });
+      throw new LLMError('network', `${this.name} network error: ${(error as Error)?.message || 'fetch failed'}`, { provider: this.name });
+    }
+
+    if (!response.ok) {
+      throw LLMError.fromStatus(response.status, response.statusText, this.name);
+    }
+
+    let result: { error?: { message?: string }; choices?: Array<{ message?: { content?: unknown } }> };
+    try {
+      result = await response.json();
+    } catch {
+      throw new LLMError('invalid_response', `${this.name} returned a non-JSON response`, { provider: this.name });
+    }
+
+    if (result?.error) {
+      throw new LLMError('bad_request', result.error.message || `${this.name} returned an error`, { provider: this.name });
+    }
+
+    const content = result?.choices?.[0]?.message?.content;
+    if (typeof content !== 'string') {
+      throw new LLMError('invalid_response', `Invalid response format from ${this.name}`, { provider: this.name });
+    }
+
+    return { content, provider: this.name, model: this.model };
+  }
+}
+
+export class PerplexityProvider extends OpenAICompatibleProvider {
+  constructor(options: { apiKey: string; model?: string }) {
+    super({
+      baseUrl: 'https://api.perplexity.ai',
+      apiKey: options.apiKey,
+      model: options.model || 'sonar',
+      name: 'perplexity'
+    });
+  }
+}
+
+export type MockResponder = (request: LLMRequest) => string;
+
+/**
+ * Deterministic offline provider. Without a custom responder it echoes back
+ * whatever structure the prompt already carries so every call site keeps
+ * working in tests and air-gapped deployments.
+ */
+export class MockLLMProvider implements LLMProvider {
+  readonly name = 'mock';
+  readonly model = 'mock';
+  private readonly responder: MockResponder;
+
+  constructor(responder?: MockResponder) {
+    this.responder = responder || MockLLMProvider.defaultResponder;
+  }
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    return { content: this.responder(request), provider: this.name, model: this.model };
+  }
+
+  static defaultResponder(request: LLMRequest): string {
+    const userContent = [...request.messages].reverse().find(m => m.role === 'user')?.content || '';
+
+    switch (request.task) {
+      case 'invoice-structuring': {
+        const jsonStart = userContent.indexOf('{');
+        if (jsonStart === -1) return '{}';
+        try {
+          const payload = JSON.parse(userContent.slice(jsonStart));
+          return JSON.stringify(payload?.heuristic ?? {});
+        } catch {
+          return '{}';
+        }
+      }
+      case 'invoice-repair':
+        return '{}';
+      case 'cleaning-summary': {
+        const metricLines = userContent
+          .split('\n')
+          .filter(line => /^(Rows|Quality Score|Cleaning Options|Actions|Estimates):/.test(line));
+        return `Offline summary. ${metricLines.join('. ')}.`;
+      }
+      case 'data-chat': {
+        const header = userContent.split('\n').find(line => line.startsWith('Column Headers:')) || '';
+        const question = userContent.split('\n').find(line => line.startsWith('User Question:')) || '';
+        return [
+          'Running in offline mode, so no language model is available to analyse the data.',
+          header,
+          question
+        ].filter(Boolean).join('\n\n');
+      }
+      default:
+        return '';
+    }
+  }
+}
+
+// ===== Configuration =====
+
+export type LLMProviderName = 'perplexity' | 'openai' | 'mock';
+
+export interface LLMSettings {
+  provider: LLMProviderName;
+  apiKey?: string;
+  baseUrl?: string;
+  model?: string;
+  timeoutMs: number;
+  maxRetries: number;
+}
+
+const SETTINGS_STORAGE_KEY = 'llm-settings';
+
+// A finite, non-negative whole number of retries; anything else falls back to 2
+const retryCount = (value: unknown) => {
+  const count = Number(value);
+  return value !== undefined && value !== '' && Number.isInteger(count) && count >= 0 ? count : 2;
+};
+
+function readEnvSettings(): LLMSettings {
+  const env = import.meta.env;
+  const pplxKey = env.VITE_PPLX_API_KEY;
+  const provider = (env.VITE_LLM_PROVIDER as LLMProviderName | undefined) || (pplxKey ? 'perplexity' : 'mock');
+  return {
+    provider,
+    apiKey: provider === 'perplexity' ? pplxKey : env.VITE_LLM_API_KEY,
+    baseUrl: env.VITE_LLM_BASE_URL,
+    model: provider === 'perplexity' ? env.VITE_PPLX_MODEL || env.VITE_LLM_MODEL : env.VITE_LLM_MODEL,
+    timeoutMs: Number(env.VITE_LLM_TIMEOUT_MS) || 30000,
+    maxRetries: retryCount(env.VITE_LLM_MAX_RETRIES)
+  };
+}
+
+function readStoredSettings(): Partial<LLMSettings> {
+  try {
+    const raw = typeof localStorage !== 'undefined' ? localStorage.getItem(SETTINGS_STORAGE_KEY) : null;
+    return raw ? JSON.parse(raw) : {};
+  } catch {
+    return {};
+  }
+}
+
+let providerOverride: LLMProvider | null = null;
+
+export function getLLMSettings(): LLMSettings {
+  return { ...readEnvSettings(), ...readStoredSettings() };
+}
+
+export function saveLLMSettings(settings: Partial<LLMSettings> | null): void {
+  if (settings === null) {
+    localStorage.removeItem(SETTINGS_STORAGE_KEY);
+    return;
+  }
+  localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify({ ...readStoredSettings(), ...settings }));
+}
+
+/** Replaces the configured provider, e.g. with a MockLLMProvider in tests. */
+export function setLLMProvider(provider: LLMProvider | null): void {
+  providerOverride = provider;
+}
+
+export function createLLMProvider(settings: LLMSettings): LLMProvider {
+  switch (settings.provider) {
+    case 'perplexity':
+      if (!settings.apiKey) {
+        throw new LLMError('not_configured', 'Perplexity API key is missing (set VITE_PPLX_API_KEY)', { provider: 'perplexity' });
+      }
+      return new PerplexityProvider({ apiKey: settings.apiKey, model: settings.model });
+    case 'openai':
+      if (!settings.baseUrl) {
+        throw new LLMError('not_configured', 'OpenAI-compatible base URL is missing (set VITE_LLM_BASE_URL)', { provider: 'openai-compatible' });
+      }
+      return new OpenAICompatibleProvider({ baseUrl: settings.baseUrl, apiKey: settings.apiKey, model: settings.model || 'default' });
+    case 'mock':
+      return new MockLLMProvider();
+    default:
+      throw new LLMError('not_configured', `Unknown LLM provider "${settings.provider}"`);
+  }
+}
+
+export function getLLMProvider(): LLMProvider {
+  return providerOverride || createLLMProvider(getLLMSettings());
+}
+
+// ===== Shared retry / timeout =====
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export async function completeWithRetry(
+  provider: LLMProvider,
+  request: LLMRequest,
+  options: { timeoutMs: number; maxRetries: number }
+): Promise<LLMResponse> {
+  let lastError: LLMError | null = null;
+  const maxRetries = retryCount(options.maxRetries);
+
+  for (let attempt = 0; attempt <= maxRetries; attempt++) {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), options.timeoutMs);
+    try {
+      return await provider.complete(request, controller.signal);
+    } catch (error) {
+      lastError = error instanceof LLMError
+        ? error
+        : new LLMError('network', (error as Error)?.message || 'Unknown LLM error', { provider: provider.name });
+      if (!lastError.retryable || attempt === maxRetries) break;
+      // Exponential backoff: 500ms, 1s, 2s, ...
+      await sleep(500 * 2 ** attempt);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  throw lastError;
+}
+
+/** Runs a completion against the configured provider with shared retry and timeout handling. */
+export async function requestCompletion(request: LLMRequest): Promise<LLMResponse> {
+  const settings = getLLMSettings();
+  return completeWithRetry(getLLMProvider(), request, {
+    timeoutMs: settings.timeoutMs,
+    maxRetries: settings.maxRetries
+  });
+}
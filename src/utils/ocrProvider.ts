@@ -0,0 +1,299 @@
+import { OcrDetection, OcrResponse } from '../types/invoice';
+
+export interface OcrProvider {
+  readonly name: string;
+  recognize(image: Blob, fileName: string, signal?: AbortSignal): Promise<OcrResponse>;
+}
+
+export type OcrErrorKind = 'not_configured' | 'server' | 'network' | 'timeout' | 'invalid_response' | 'missing_fixture';
+
+export class OcrError extends Error {
+  readonly kind: OcrErrorKind;
+  readonly status?: number;
+  readonly provider?: string;
+
+  constructor(kind: OcrErrorKind, message: string, options: { status?: number; provider?: string } = {}) {
+    super(message);
+    this.name = 'OcrError';
+    this.kind = kind;
+    this.status = options.status;
+    this.provider = options.provider;
+  }
+}
+
+// ===== Response normalisation =====
+
+type RawBox = number[] | number[][] | Record<string, number> | undefined;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/** Accepts [x0, y0, x1, y1], a polygon of [x, y] points, {x0, y0, x1, y1} or {x, y, width, height}. */
+function normalizeBox(raw: RawBox): OcrDetection['bbox'] {
+  if (!raw) return undefined;
+  if (Array.isArray(raw)) {
+    if (raw.length === 4 && raw.every(v => typeof v === 'number')) return raw as [number, number, number, number];
+    const points = (raw as number[][]).filter(p => Array.isArray(p) && p.length >= 2);
+    if (points.length === 0) return undefined;
+    const xs = points.map(p => p[0]);
+    const ys = points.map(p => p[1]);
+    return [Math.min(...xs), Math.min(...ys), Math.max(...xs), Math.max(...ys)];
+  }
+  if ('x0' in raw) return [raw.x0, raw.y0, raw.x1, raw.y1];
+  if ('width' in raw) {
+    const x = raw.x ?? raw.left ?? 0;
+    const y = raw.y ?? raw.top ?? 0;
+    return [x, y, x + raw.width, y + raw.height];
+  }
+  return undefined;
+}
+
+function normalizeDetection(raw: unknown): OcrDetection | null {
+  // PaddleOCR style: [polygon, [text, confidence]]
+  if (Array.isArray(raw) && raw.length === 2 && Array.isArray(raw[1]) && typeof raw[1][0] === 'string') {
+    return { text: raw[1][0], confidence: Number(raw[1][1]) || 0, bbox: normalizeBox(raw[0]) };
+  }
+  if (!isRecord(raw)) return null;
+
+  const text = raw.text ?? raw.str ?? raw.value;
+  if (typeof text !== 'string' || text.trim() === '') return null;
+
+  // Tesseract reports confidence as 0–100
+  let confidence = Number(raw.confidence ?? raw.conf ?? raw.score ?? 0) || 0;
+  if (confidence > 1) confidence /= 100;
+
+  return {
+    text,
+    confidence: Math.max(0, Math.min(1, confidence)),
+    bbox: normalizeBox((raw.bbox ?? raw.box ?? raw.boundingBox ?? raw.points) as RawBox),
+    page: typeof raw.page === 'number' ? raw.page : undefined
+  };
+}
+
+/**
+ * Converts the response shapes of the supported OCR servers into the
+ * `{ full_text, detections }` format the invoice parser expects.
+ */
+export function normalizeOcrResponse(raw: unknown): OcrResponse {
+  const body = isRecord(raw) && isRecord(raw.data) ? raw.data : raw; // Tesseract.js wraps results in `data`
+  const list = Array.isArray(body)
+    ? body
+    : isRecord(body)
+      ? body.detections ?? body.lines ?? body.words ?? body.results ?? []
+      : [];
+
+  if (!Array.isArray(list)) {
+    throw new OcrError('invalid_response', 'OCR response has no list of detections');
+  }
+
+  const detections = list
+    .map(normalizeDetection)
+    .filter((d): d is OcrDetection => d !== null);
+
+  const fullText = isRecord(body) && typeof (body.full_text ?? body.text) === 'string'
+    ? String(body.full_text ?? body.text)
+    : detections.map(d => d.text).join('\n');
+
+  return { full_text: fullText, detections };
+}
+
+// ===== Adapters =====
+
+async function postImage(
+  url: string,
+  image: Blob,
+  fileName: string,
+  fieldName: string,
+  provider: string,
+  signal?: AbortSignal
+): Promise<OcrResponse> {
+  const form = new FormData();
+  form.append(fieldName, image, fileName);
+
+  let response: Response;
+  try {
+    response = await fetch(url, { method: 'POST', body: form, signal });
+  } catch (error) {
+    if (signal?.aborted) throw new OcrError('timeout', `${provider} OCR request timed out`, { provider });
+    throw new OcrError('network', `${provider} network error: ${(error as Error)?.message || 'fetch failed'}`, { provider });
+  }
+
+  if (!response.ok) {
+    throw new OcrError('server', `OCR failed: ${response.status}`, { status: response.status, provider });
+  }
+
+  let json: unknown;
+  try {
+    json = await response.json();
+  } catch {
+    throw new OcrError('invalid_response', `${provider} returned a non-JSON response`, { provider });
+  }
+  return normalizeOcrResponse(json);
+}
+
+export const HF_SPACE_OCR_ENDPOINT = 'https://sidhu07-hindi-ocr-api.hf.space/ocr';
+
+/** The hosted Hindi/English OCR Space on Hugging Face. */
+export class HuggingFaceSpaceOcrProvider implements OcrProvider {
+  readonly name = 'hf-space';
+  private readonly endpoint: string;
+
+  constructor(endpoint: string = HF_SPACE_OCR_ENDPOINT) {
+    this.endpoint = endpoint;
+  }
+
+  recognize(image: Blob, fileName: string, signal?: AbortSignal): Promise<OcrResponse> {
+    return postImage(this.endpoint, image, fileName, 'image', this.name, signal);
+  }
+}
+
+/**
+ * A self-hosted OCR server, e.g. PaddleOCR or Tesseract behind a small HTTP
+ * wrapper, that accepts a multipart upload and returns detections in any of
+ * the shapes `normalizeOcrResponse` understands.
+ */
+export class LocalOcrServerProvider implements OcrProvider {
+  readonly name = 'local';
+  private readonly url: string;
+  private readonly fieldName: string;
+
+  constructor(options: { baseUrl: string; path?: string; fieldName?: string }) {
+    this.url = `${options.baseUrl.replace(/\/+$/, '')}${options.path ?? '/ocr'}`;
+    this.fieldName = options.fieldName || 'image';
+  }
+
+  recognize(image: Blob, fileName: string, signal?: AbortSignal): Promise<OcrResponse> {
+    return postImage(this.url, image, fileName, this.fieldName, this.name, signal);
+  }
+}
+
+export type OcrFixtures = Record<string, unknown>;
+
+const unwrapFixtures = (source: unknown): OcrFixtures =>
+  isRecord(source) && isRecord(source.fixtures) ? source.fixtures : isRecord(source) ? source : {};
+
+/**
+ * Replays recorded OCR responses keyed by file name, so invoice extraction
+ * runs in tests and CI without an OCR service. Fixtures can be passed in or
+ * loaded once from a JSON file, either as a plain map or as the
+ * `{ fixtures, expected }` set exported from the accuracy dashboard.
+ */
+export class FixtureOcrProvider implements OcrProvider {
+  readonly name = 'fixture';
+  private fixtures: OcrFixtures | null;
+  private readonly fixturesUrl?: string;
+
+  constructor(source: OcrFixtures | string) {
+    this.fixtures = typeof source === 'string' ? null : unwrapFixtures(source);
+    this.fixturesUrl = typeof source === 'string' ? source : undefined;
+  }
+
+  async recognize(_image: Blob, fileName: string): Promise<OcrResponse> {
+    const fixtures = await this.load();
+    const baseName = fileName.replace(/\.[^.]+$/, '');
+    const fixture = fixtures[fileName] ?? fixtures[baseName] ?? fixtures['*'];
+    if (fixture === undefined) {
+      throw new OcrError('missing_fixture', `No OCR fixture recorded for "${fileName}"`, { provider: this.name });
+    }
+    return normalizeOcrResponse(fixture);
+  }
+
+  private async load(): Promise<OcrFixtures> {
+    if (this.fixtures) return this.fixtures;
+    if (!this.fixturesUrl) return {};
+    const response = await fetch(this.fixturesUrl);
+    if (!response.ok) {
+      throw new OcrError('not_configured', `Could not load OCR fixtures from ${this.fixturesUrl}`, { provider: this.name });
+    }
+    this.fixtures = unwrapFixtures(await response.json());
+    return this.fixtures;
+  }
+}
+
+// ===== Configuration =====
+
+export type OcrProviderName = 'hf-space' | 'local' | 'fixture';
+
+export interface OcrSettings {
+  provider: OcrProviderName;
+  endpoint?: string; // hf-space override
+  localUrl?: string;
+  fixturesUrl?: string;
+  timeoutMs: number;
+}
+
+const SETTINGS_STORAGE_KEY = 'ocr-settings';
+
+function readEnvSettings(): OcrSettings {
+  const env = import.meta.env;
+  return {
+    provider: (env.VITE_OCR_PROVIDER as OcrProviderName | undefined) || 'hf-space',
+    endpoint: env.VITE_OCR_ENDPOINT,
+    localUrl: env.VITE_OCR_LOCAL_URL,
+    fixturesUrl: env.VITE_OCR_FIXTURES_URL,
+    timeoutMs: Number(env.VITE_OCR_TIMEOUT_MS) || 60000
+  };
+}
+
+function readStoredSettings(): Partial<OcrSettings> {
+  try {
+    const raw = typeof localStorage !== 'undefined' ? localStorage.getItem(SETTINGS_STORAGE_KEY) : null;
+    return raw ? JSON.parse(raw) : {};
+  } catch {
+    return {};
+  }
+}
+
+let providerOverride: OcrProvider | null = null;
+
+export function getOcrSettings(): OcrSettings {
+  return { ...readEnvSettings(), ...readStoredSettings() };
+}
+
+export function saveOcrSettings(settings: Partial<OcrSettings> | null): void {
+  if (settings === null) {
+    localStorage.removeItem(SETTINGS_STORAGE_KEY);
+    return;
+  }
+  localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify({ ...readStoredSettings(), ...settings }));
+}
+
+/** Replaces the configured provider, e.g. with a FixtureOcrProvider in tests. */
+export function setOcrProvider(provider: OcrProvider | null): void {
+  providerOverride = provider;
+}
+
+export function createOcrProvider(settings: OcrSettings): OcrProvider {
+  switch (settings.provider) {
+    case 'hf-space':
+      return new HuggingFaceSpaceOcrProvider(settings.endpoint || HF_SPACE_OCR_ENDPOINT);
+    case 'local':
+      if (!settings.localUrl) {
+        throw new OcrError('not_configured', 'Local OCR server URL is missing (set VITE_OCR_LOCAL_URL)', { provider: 'local' });
+      }
+      return new LocalOcrServerProvider({ baseUrl: settings.localUrl });
+    case 'fixture':
+      if (!settings.fixturesUrl) {
+        throw new OcrError('not_configured', 'OCR fixtures file is missing (set VITE_OCR_FIXTURES_URL)', { provider: 'fixture' });
+      }
+      return new FixtureOcrProvider(settings.fixturesUrl);
+    default:
+      throw new OcrError('not_configured', `Unknown OCR provider "${settings.provider}"`);
+  }
+}
+
+export function getOcrProvider(): OcrProvider {
+  return providerOverride || createOcrProvider(getOcrSettings());
+}
+
+/** Runs OCR on one image with the configured provider and timeout. */
+export async function requestOcr(image: Blob, fileName: string): Promise<OcrResponse> {
+  const settings = getOcrSettings();
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), settings.timeoutMs);
+  try {
+    return await getOcrProvider().recognize(image, fileName, controller.signal);
+  } finally {
+    clearTimeout(timer);
+  }
+}
@@ -0,0 +1,133 @@
+import { PartyMatch } from '../types/invoice';
+import { GstinValidator } from './gstinValidator';
+import { phonetic, tokenSetSimilarity, transliterate } from './productMatcher';
+
+const MIN_CANDIDATE_SCORE = 0.5;
+
+/** Candidates at or above this score are selected without asking. */
+export const PARTY_AUTO_LINK_SCORE = 0.9;
+
+export interface PartyRecord {
+  id: string;
+  name: string;
+  gstin?: string | null;
+  address?: string | null;
+  state?: string | null;
+}
+
+interface PartyQuery {
+  name?: string;
+  gstin?: string;
+  address?: string;
+}
+
+// Honorifics and legal forms say nothing about which business it is
+const PREFIX_PATTERN = /^(?:m\/s\.?|messrs\.?|m\.s\.|shri|sri|shree|मैसर्स|मे\.|श्री)\s*/i;
+const LEGAL_FORM_PATTERN = new RegExp(
+  [
+    'private\\s+limited', 'pvt\\.?\\s*ltd\\.?', 'pvt\\.?', 'p\\.?\\s*ltd\\.?', 'limited', 'ltd\\.?', 'llp',
+    '\\(opc\\)', 'opc', 'inc\\.?', 'corp\\.?', '&\\s*co\\.?', 'and\\s+company', 'co\\.',
+    'प्राइवेट\\s+लिमिटेड', 'प्रा\\.?\\s*लि\\.?', 'लिमिटेड'
+  ].join('|'),
+  'i'
+);
+const TRAILING_LEGAL_FORMS = new RegExp(`(?:\\s+(?:${LEGAL_FORM_PATTERN.source}))+\\s*$`, 'i');
+
+const ADDRESS_STOPWORDS = new Set([
+  'road', 'rd', 'street', 'st', 'marg', 'near', 'opp', 'opposite', 'behind', 'no', 'floor', 'flat',
+  'shop', 'plot', 'sector', 'india', 'the', 'and', 'at', 'post', 'dist', 'district'
+]);
+
+/** Tokens of a business name without honorifics or legal form: "M/s Sharma Traders Pvt. Ltd." → [sarma, trader]. */
+export function normalizePartyName(name: string): string[] {
+  const stripped = ` ${name.trim().replace(PREFIX_PATTERN, '')}`.replace(TRAILING_LEGAL_FORMS, '');
+  return transliterate(stripped)
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean)
+    .map(phonetic);
+}
+
+// Vowels are where romanisations differ most (ट्रेडर्स → tredars), so names are also compared without them
+const skeleton = (token: string) => token[0] + token.slice(1).replace(/[aeiou]/g, '');
+
+function nameSimilarity(left: string[], right: string[]): number {
+  if (left.length === 0 || right.length === 0) return 0;
+  return Math.max(tokenSetSimilarity(left, right), 0.9 * tokenSetSimilarity(left.map(skeleton), right.map(skeleton)));
+}
+
+function addressTokens(address: string): { tokens: Set<string>; pincode?: string } {
+  const text = transliterate(address).toLowerCase();
+  const pincode = text.match(/\b\d{3}\s?\d{3}\b/)?.[0].replace(/\s/g, '');
+  const tokens = new Set(
+    text.split(/[^\p{L}\p{N}]+/u).filter(token => token.length > 1 && !ADDRESS_STOPWORDS.has(token)).map(phonetic)
+  );
+  return { tokens, pincode };
+}
+
+/** Shared words of two addresses, with the PIN code deciding when both carry one. */
+export function addressSimilarity(a: string, b: string): number {
+  const left = addressTokens(a);
+  const right = addressTokens(b);
+  if (left.pincode && right.pincode && left.pincode !== right.pincode) return 0;
+  const shared = [...left.tokens].filter(token => right.tokens.has(token)).length;
+  const overlap = shared / Math.max(1, Math.min(left.tokens.size, right.tokens.size));
+  return left.pincode && left.pincode === right.pincode ? Math.max(0.6, overlap) : overlap;
+}
+
+export class PartyMatcher {
+  /**
+   * Existing customers ranked by how likely they are the invoice's party:
+   * the same GSTIN, then the same PAN (another state registration), then
+   * name similarity after dropping M/s, Pvt Ltd and the like and
+   * transliterating Hindi, refined by address similarity.
+   */
+  static rank(query: PartyQuery, parties: PartyRecord[], limit = 3): PartyMatch[] {
+    const gstin = query.gstin ? GstinValidator.normalize(query.gstin) : '';
+    const queryTokens = normalizePartyName(query.name || '');
+
+    return parties
+      .map(party => {
+        const reasons: string[] = [];
+        const partyGstin = party.gstin ? GstinValidator.normalize(party.gstin) : '';
+
+        if (gstin && partyGstin === gstin) {
+          return { partyId: party.id, partyName: party.name, score: 1, reasons: ['Same GSTIN'] };
+        }
+
+        const nameScore = Math.round(nameSimilarity(queryTokens, normalizePartyName(party.name)) * 100) / 100;
+        let score = nameScore;
+        if (nameScore === 1) reasons.push('Same name');
+        else if (nameScore > 0) reasons.push(`${Math.round(nameScore * 100)}% name similarity`);
+
+        if (query.address && party.address) {
+          const addressScore = addressSimilarity(query.address, party.address);
+          score = score * 0.8 + addressScore * 0.2;
+          if (addressScore >= 0.5) reasons.push(`${Math.round(addressScore * 100)}% address similarity`);
+        }
+
+        if (gstin && partyGstin) {
+          if (gstin.slice(2, 12) === partyGstin.slice(2, 12)) {
+            // Likely the same business, but the bill should name the registration it was issued to
+            score = Math.min(0.85, Math.max(score, 0.8));
+            reasons.unshift('Same PAN, different state registration');
+          } else {
+            score = Math.min(score, 0.6);
+            reasons.push('Different GSTIN');
+          }
+        }
+
+        return { partyId: party.id, partyName: party.name, score: Math.round(score * 100) / 100, reasons };
+      })
+      .filter(match => match.score >= MIN_CANDIDATE_SCORE)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+  }
+
+  /** The candidate to select without asking: a high score clearly ahead of the runner-up. */
+  static autoLink(matches: PartyMatch[]): PartyMatch | undefined {
+    const [best, runnerUp] = matches;
+    if (!best || best.score < PARTY_AUTO_LINK_SCORE) return undefined;
+    return runnerUp && runnerUp.score > best.score - 0.05 ? undefined : best;
+  }
+}
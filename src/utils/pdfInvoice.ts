@@ -0,0 +1,184 @@
+import type { PDFPageProxy } from 'pdfjs-dist';
+import type { TextItem } from 'pdfjs-dist/types/src/display/api';
+import { OcrDetection, OcrResponse } from '../types/invoice';
+
+// Pages with fewer printable characters than this are treated as scans
+const MIN_TEXT_CHARS_PER_PAGE = 20;
+const RASTER_SCALE = 2;
+
+export interface PdfExtraction {
+  response: OcrResponse;
+  pageCount: number;
+  textPages: number[];
+  rasterizedPages: number[];
+}
+
+export type PageOcr = (image: File, page: number) => Promise<OcrResponse>;
+
+interface TextCell {
+  text: string;
+  x0: number;
+  x1: number;
+  top: number;
+  baseline: number;
+}
+
+interface PositionedText {
+  text: string;
+  x0: number;
+  x1: number;
+  top: number;
+  baseline: number;
+  height: number;
+}
+
+export const isPdfFile = (file: File) =>
+  file.type === 'application/pdf' || /\.pdf$/i.test(file.name);
+
+let pdfjsPromise: Promise<typeof import('pdfjs-dist')> | null = null;
+
+// pdf.js is large, so it is only loaded the first time a PDF is dropped in
+async function loadPdfjs() {
+  if (!pdfjsPromise) {
+    pdfjsPromise = Promise.all([
+      import('pdfjs-dist'),
+      import('pdfjs-dist/build/pdf.worker.min.mjs?url')
+    ]).then(([pdfjs, worker]) => {
+      pdfjs.GlobalWorkerOptions.workerSrc = worker.default;
+      return pdfjs;
+    });
+  }
+  return pdfjsPromise;
+}
+
+export class PdfInvoiceReader {
+  /**
+   * Reads every page of a PDF into one OCR-shaped response. Digitally generated
+   * pages use their embedded text layer with its positions; only pages without
+   * one are rasterised and sent to `ocrPage`.
+   */
+  static async extract(file: File, ocrPage: PageOcr): Promise<PdfExtraction> {
+    const pdfjs = await loadPdfjs();
+    const pdf = await pdfjs.getDocument({ data: new Uint8Array(await file.arrayBuffer()) }).promise;
+
+    const textPages: number[] = [];
+    const rasterizedPages: number[] = [];
+    const pageTexts: string[] = [];
+    const detections: OcrDetection[] = [];
+
+    try {
+      for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+        const page = await pdf.getPage(pageNumber);
+        const lines = await this.readTextLayer(page, pdfjs.Util.transform);
+        const printable = lines.reduce((sum, line) => sum + line.text.replace(/\s/g, '').length, 0);
+
+        if (printable >= MIN_TEXT_CHARS_PER_PAGE) {
+          textPages.push(pageNumber);
+          pageTexts.push(lines.map(line => line.text).join('\n'));
+          lines.flatMap(line => line.cells).forEach(cell => detections.push({
+            text: cell.text,
+            confidence: 1, // Embedded text is exact
+            bbox: [cell.x0, cell.top, cell.x1, cell.baseline],
+            page: pageNumber
+          }));
+        } else {
+          rasterizedPages.push(pageNumber);
+          const image = await this.rasterize(page, `${file.name.replace(/\.pdf$/i, '')}-p${pageNumber}.png`);
+          const ocr = await ocrPage(image, pageNumber);
+          pageTexts.push(ocr.full_text || (ocr.detections || []).map(d => d.text).join('\n'));
+          (ocr.detections || []).forEach(d => detections.push({ ...d, page: pageNumber }));
+        }
+        page.cleanup();
+      }
+    } finally {
+      await pdf.destroy();
+    }
+
+    return {
+      response: { full_text: pageTexts.join('\n'), detections },
+      pageCount: textPages.length + rasterizedPages.length,
+      textPages,
+      rasterizedPages
+    };
+  }
+
+  /**
+   * Groups the page's text runs into visual lines, top to bottom. Runs
+   * separated by a column gap become separate cells, which keeps table
+   * columns apart in the text (as double spaces) and in the detections.
+   */
+  private static async readTextLayer(
+    page: PDFPageProxy,
+    transform: (m1: number[], m2: number[]) => number[]
+  ): Promise<Array<{ text: string; cells: TextCell[] }>> {
+    const viewport = page.getViewport({ scale: 1 });
+    const content = await page.getTextContent();
+
+    const runs: PositionedText[] = (content.items as TextItem[])
+      .filter(item => typeof item.str === 'string' && item.str.trim().length > 0)
+      .map(item => {
+        const [, , c, d, e, f] = transform(viewport.transform, item.transform);
+        const height = Math.hypot(c, d) || item.height || 1;
+        return { text: item.str, x0: e, x1: e + item.width * viewport.scale, top: f - height, baseline: f, height };
+      })
+      .sort((a, b) => a.baseline - b.baseline || a.x0 - b.x0);
+
+    const lines: PositionedText[][] = [];
+    runs.forEach(run => {
+      const line = lines[lines.length - 1];
+      if (line && Math.abs(line[0].baseline - run.baseline) <= line[0].height * 0.5) line.push(run);
+      else lines.push([run]);
+    });
+
+    return lines.map(line => {
+      const sorted = [...line].sort((a, b) => a.x0 - b.x0);
+      const groups: PositionedText[][] = [[sorted[0]]];
+      for (let i = 1; i < sorted.length; i++) {
+        const prev = sorted[i - 1];
+        const charWidth = (prev.x1 - prev.x0) / Math.max(1, prev.text.length);
+        const gap = sorted[i].x0 - prev.x1;
+        if (gap > charWidth * 2) {
+          groups.push([sorted[i]]);
+        } else {
+          const group = groups[groups.length - 1];
+          group.push({ ...sorted[i], text: (gap > charWidth * 0.2 ? ' ' : '') + sorted[i].text });
+        }
+      }
+
+      const cells = groups.map(group => ({
+        text: group.map(run => run.text).join('').trim(),
+        x0: Math.round(group[0].x0),
+        x1: Math.round(Math.max(...group.map(r => r.x1))),
+        top: Math.round(Math.min(...group.map(r => r.top))),
+        baseline: Math.round(Math.max(...group.map(r => r.baseline)))
+      })).filter(cell => cell.text);
+
+      return { text: cells.map(cell => cell.text).join('  '), cells };
+    });
+  }
+
+  /** The first page as an image, for finding the e-invoice QR code. */
+  static async renderFirstPage(file: File): Promise<File> {
+    const pdfjs = await loadPdfjs();
+    const pdf = await pdfjs.getDocument({ data: new Uint8Array(await file.arrayBuffer()) }).promise;
+    try {
+      return await this.rasterize(await pdf.getPage(1), `${file.name.replace(/\.pdf$/i, '')}-p1.png`);
+    } finally {
+      await pdf.destroy();
+    }
+  }
+
+  private static async rasterize(page: PDFPageProxy, fileName: string): Promise<File> {
+    const viewport = page.getViewport({ scale: RASTER_SCALE });
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.ceil(viewport.width);
+    canvas.height = Math.ceil(viewport.height);
+    const context = canvas.getContext('2d');
+    if (!context) throw new Error('Canvas is not available to render the PDF page');
+
+    await page.render({ canvasContext: context, viewport }).promise;
+    const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+    if (!blob) throw new Error(`Could not render ${fileName}`);
+    return new File([blob], fileName, { type: 'image/png' });
+  }
+}
@@ -0,0 +1,282 @@
+import { ProductMatch } from '../types/invoice';
+
+const MAPPINGS_STORAGE_KEY = 'product-mappings';
+const MIN_SUGGESTION_SCORE = 0.45;
+const MIN_TOKEN_SIMILARITY = 0.75;
+
+/** Suggestions at or above this score are linked without asking. */
+export const AUTO_LINK_SCORE = 0.85;
+
+interface CatalogProduct {
+  id: string;
+  name: string;
+}
+
+interface ProductMapping {
+  productId: string;
+  productName: string;
+  count: number;
+  updatedAt: string;
+}
+
+interface NormalizedName {
+  tokens: string[];
+  size?: string; // e.g. "5000g", "500ml", "12pc"
+  key: string;
+}
+
+// ===== Transliteration =====
+
+const DEVANAGARI_VOWELS: Record<string, string> = {
+  'अ': 'a', 'आ': 'aa', 'इ': 'i', 'ई': 'ee', 'उ': 'u', 'ऊ': 'oo', 'ऋ': 'ri',
+  'ए': 'e', 'ऐ': 'ai', 'ओ': 'o', 'औ': 'au'
+};
+
+const DEVANAGARI_MATRAS: Record<string, string> = {
+  'ा': 'aa', 'ि': 'i', 'ी': 'ee', 'ु': 'u', 'ू': 'oo', 'ृ': 'ri',
+  'े': 'e', 'ै': 'ai', 'ो': 'o', 'ौ': 'au'
+};
+
+const DEVANAGARI_CONSONANTS: Record<string, string> = {
+  'क': 'k', 'ख': 'kh', 'ग': 'g', 'घ': 'gh', 'ङ': 'n',
+  'च': 'ch', 'छ': 'chh', 'ज': 'j', 'झ': 'jh', 'ञ': 'n',
+  'ट': 't', 'ठ': 'th', 'ड': 'd', 'ढ': 'dh', 'ण': 'n',
+  'त': 't', 'थ': 'th', 'द': 'd', 'ध': 'dh', 'न': 'n',
+  'प': 'p', 'फ': 'ph', 'ब': 'b', 'भ': 'bh', 'म': 'm',
+  'य': 'y', 'र': 'r', 'ल': 'l', 'व': 'v', 'श': 'sh', 'ष': 'sh', 'स': 's', 'ह': 'h'
+};
+
+/** Romanises Devanagari with the inherent vowel dropped at the end of words (चावल → chaaval). */
+export function transliterate(text: string): string {
+  let out = '';
+  let pendingVowel = false; // Last consonant still carries its inherent "a"
+
+  const flush = (atWordEnd: boolean) => {
+    if (pendingVowel && !atWordEnd) out += 'a';
+    pendingVowel = false;
+  };
+
+  for (const char of text.normalize('NFC')) {
+    if (DEVANAGARI_CONSONANTS[char]) {
+      flush(false);
+      out += DEVANAGARI_CONSONANTS[char];
+      pendingVowel = true;
+    } else if (DEVANAGARI_MATRAS[char]) {
+      pendingVowel = false;
+      out += DEVANAGARI_MATRAS[char];
+    } else if (char === '्') {
+      pendingVowel = false; // Virama
+    } else if (char === 'ं' || char === 'ँ') {
+      flush(false);
+      out += 'n';
+    } else if (char === '़' || char === 'ः') {
+      // Nukta and visarga carry no distinction worth keeping here
+    } else if (DEVANAGARI_VOWELS[char]) {
+      flush(false);
+      out += DEVANAGARI_VOWELS[char];
+    } else if (char >= '०' && char <= '९') {
+      flush(false);
+      out += String(char.charCodeAt(0) - '०'.charCodeAt(0));
+    } else {
+      flush(!/[\p{L}\p{N}]/u.test(char));
+      out += char;
+    }
+  }
+  flush(true);
+  return out;
+}
+
+/** Spelling-insensitive key, so "chawal", "chaawal" and चावल compare equal. */
+export function phonetic(word: string): string {
+  let key = word.toLowerCase()
+    .replace(/chh|ch/g, 'c')
+    .replace(/sh/g, 's')
+    .replace(/ph/g, 'f')
+    .replace(/ck/g, 'k')
+    .replace(/w/g, 'v')
+    .replace(/z/g, 'j')
+    .replace(/q/g, 'k')
+    .replace(/([kgtdbjp])h/g, '$1')
+    .replace(/ee|ii/g, 'i')
+    .replace(/oo|uu/g, 'u')
+    .replace(/(.)\1+/g, '$1');
+  if (key.length > 3) key = key.replace(/y$/, 'i').replace(/[as]$/, '');
+  return key;
+}
+
+// Common Hindi grocery names and their English equivalents share one key
+const SYNONYM_GROUPS = [
+  ['rice', 'chawal', 'चावल'],
+  ['sugar', 'cheeni', 'chini', 'चीनी', 'shakkar', 'शक्कर'],
+  ['salt', 'namak', 'नमक'],
+  ['oil', 'tel', 'तेल'],
+  ['flour', 'atta', 'aata', 'आटा'],
+  ['lentil', 'dal', 'daal', 'दाल'],
+  ['tea', 'chai', 'चाय'],
+  ['turmeric', 'haldi', 'हल्दी'],
+  ['chilli', 'chili', 'mirch', 'मिर्च'],
+  ['milk', 'doodh', 'दूध'],
+  ['soap', 'sabun', 'साबुन'],
+  ['wheat', 'gehun', 'गेहूं'],
+  ['chickpea', 'chana', 'चना'],
+  ['cumin', 'jeera', 'jira', 'जीरा'],
+  ['mustard', 'sarson', 'सरसों'],
+  ['coriander', 'dhaniya', 'धनिया'],
+  ['ghee', 'घी'],
+  ['biscuit', 'बिस्कुट']
+];
+
+const SYNONYMS = new Map<string, string>();
+SYNONYM_GROUPS.forEach(group => {
+  const canonical = phonetic(transliterate(group[0]));
+  group.forEach(word => SYNONYMS.set(phonetic(transliterate(word)), canonical));
+});
+
+// ===== Sizes =====
+
+const UNIT_FACTORS: Array<{ pattern: RegExp; unit: 'g' | 'ml' | 'pc'; factor: number }> = [
+  { pattern: /^(kg|kgs|kilo|kilos|kilogram|kilograms)$/, unit: 'g', factor: 1000 },
+  { pattern: /^(g|gm|gms|gr|gram|grams|graam)$/, unit: 'g', factor: 1 },
+  { pattern: /^(mg)$/, unit: 'g', factor: 0.001 },
+  { pattern: /^(l|lt|ltr|ltrs|litre|litres|liter|liters|leetar|litar)$/, unit: 'ml', factor: 1000 },
+  { pattern: /^(ml|mls)$/, unit: 'ml', factor: 1 },
+  { pattern: /^(pc|pcs|piece|pieces|nos)$/, unit: 'pc', factor: 1 },
+  { pattern: /^(dozen|dz)$/, unit: 'pc', factor: 12 }
+];
+
+const SIZE_PATTERN = /(\d+(?:\.\d+)?)\s*([a-z]+)\b/g;
+
+const STOPWORDS = new Set(['the', 'of', 'and', 'with', 'new', 'pack', 'pkt', 'packet', 'n/a']);
+
+function normalize(name: string): NormalizedName {
+  let text = transliterate(name).toLowerCase().replace(/[_,()[\]/+-]/g, ' ');
+  let size: string | undefined;
+
+  text = text.replace(SIZE_PATTERN, (match, amount: string, unitWord: string) => {
+    const unit = UNIT_FACTORS.find(u => u.pattern.test(unitWord));
+    if (!unit) return match;
+    const value = Math.round(parseFloat(amount) * unit.factor * 1000) / 1000;
+    size = size ?? `${value}${unit.unit}`;
+    return ' ';
+  });
+
+  const tokens = text
+    .split(/[^\p{L}\p{N}.]+/u)
+    .map(token => token.replace(/^\.+|\.+$/g, ''))
+    .filter(token => token && !STOPWORDS.has(token))
+    .map(token => {
+      const key = phonetic(token);
+      return SYNONYMS.get(key) || key;
+    });
+
+  return { tokens, size, key: [...[...tokens].sort(), size || ''].join(' ').trim() };
+}
+
+function levenshtein(a: string, b: string): number {
+  const previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = previous[0];
+    previous[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = previous[j];
+      previous[j] = Math.min(previous[j] + 1, previous[j - 1] + 1, diagonal + (a[i - 1] === b[j - 1] ? 0 : 1));
+      diagonal = above;
+    }
+  }
+  return previous[b.length];
+}
+
+const tokenSimilarity = (a: string, b: string) => {
+  if (a === b) return 1;
+  if (/\d/.test(a) || /\d/.test(b)) return 0; // Numbers (grades, model numbers) must match exactly
+  const similarity = 1 - levenshtein(a, b) / Math.max(a.length, b.length);
+  return similarity >= MIN_TOKEN_SIMILARITY ? similarity : 0;
+};
+
+/** Symmetric best-match similarity of two token lists. */
+export function tokenSetSimilarity(left: string[], right: string[]): number {
+  if (left.length === 0 || right.length === 0) return 0;
+  const best = (from: string[], to: string[]) =>
+    from.reduce((sum, token) => sum + Math.max(...to.map(other => tokenSimilarity(token, other))), 0);
+  return (best(left, right) + best(right, left)) / (left.length + right.length);
+}
+
+export class ProductMatcher {
+  /**
+   * Catalog products ranked by how likely they are the extracted line: the
+   * product this name was linked to before, then token similarity after
+   * transliteration and unit normalisation, with sizes required to agree.
+   */
+  static rank(
+    name: string,
+    products: CatalogProduct[],
+    options: { supplierGstin?: string; limit?: number } = {}
+  ): ProductMatch[] {
+    const target = normalize(name);
+    if (target.tokens.length === 0) return [];
+
+    const previous = this.previousMapping(target.key, options.supplierGstin);
+
+    return products
+      .map(product => {
+        const candidate = normalize(product.name);
+        const reasons: string[] = [];
+        let score = candidate.key === target.key ? 1 : tokenSetSimilarity(target.tokens, candidate.tokens);
+        if (score === 1) reasons.push('Same name after normalisation');
+        else if (score > 0) reasons.push(`${Math.round(score * 100)}% name similarity`);
+
+        if (target.size && candidate.size) {
+          if (target.size === candidate.size) {
+            score = Math.min(1, score + 0.05);
+            reasons.push(`Same size (${target.size})`);
+          } else {
+            score *= 0.5;
+            reasons.push(`Different size (${target.size} vs ${candidate.size})`);
+          }
+        } else if (target.size || candidate.size) {
+          score *= 0.9;
+        }
+
+        if (previous?.productId === product.id) {
+          score = Math.max(score, 0.99);
+          reasons.unshift(`Linked ${previous.count}× before`);
+        }
+
+        return { productId: product.id, productName: product.name, score: Math.round(score * 100) / 100, reasons };
+      })
+      .filter(match => match.score >= MIN_SUGGESTION_SCORE)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, options.limit ?? 3);
+  }
+
+  /** Remembers that an extracted name was confirmed as a catalog product. */
+  static remember(extractedName: string, product: CatalogProduct, supplierGstin?: string): void {
+    const key = normalize(extractedName).key;
+    if (!key) return;
+    const mappings = this.readMappings();
+    [`*|${key}`, ...(supplierGstin ? [`${supplierGstin}|${key}`] : [])].forEach(mappingKey => {
+      const existing = mappings[mappingKey];
+      mappings[mappingKey] = {
+        productId: product.id,
+        productName: product.name,
+        count: existing?.productId === product.id ? existing.count + 1 : 1,
+        updatedAt: new Date().toISOString()
+      };
+    });
+    localStorage.setItem(MAPPINGS_STORAGE_KEY, JSON.stringify(mappings));
+  }
+
+  private static previousMapping(key: string, supplierGstin?: string): ProductMapping | undefined {
+    const mappings = this.readMappings();
+    return (supplierGstin && mappings[`${supplierGstin}|${key}`]) || mappings[`*|${key}`];
+  }
+
+  private static readMappings(): Record<string, ProductMapping> {
+    try {
+      const raw = typeof localStorage !== 'undefined' ? localStorage.getItem(MAPPINGS_STORAGE_KEY) : null;
+      return raw ? JSON.parse(raw) : {};
+    } catch {
+      return {};
+    }
+  }
+}
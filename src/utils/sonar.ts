@@ -1,3 +1,11 @@
+import { requestCompletion, LLMMessage } from './llmProvider';
+import { InvoiceSchema } from './invoiceSchema';
+import { ProvenanceTracker, OcrEvidence } from './invoiceProvenance';
+import { GstCalculator } from './gstTax';
+import { InvoiceReconciler } from './invoiceReconciler';
+import { CurrencyDetector } from './currency';
+import { AmountInWordsCheck, InvoiceFieldError, InvoiceProvenance, SupplyType } from '../types/invoice';
+
 export interface CleaningSummaryContext {
 	profile?: {
 		rowCount: number;
@@ -32,17 +40,7 @@ export interface CleaningSummaryContext {
 	}>;
 }
 
-// getEnv reserved for future use
-
 export async function generateCleaningSummaryViaSonar(context: CleaningSummaryContext): Promise<string> {
-	const apiKey = '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';
-	const model = 'sonar';
-
-	// Fallback if no API key: return a concise deterministic summary
-	if (!apiKey) {
-		return fallbackSummary(context);
-	}
-
 	const { profile, metrics, actions = [], options, weightVariable, estimates = [] } = context;
 
 	const actionSummary = summarizeActions(actions);
@@ -68,33 +66,18 @@ export async function generateCleaningSummaryViaSonar(context: CleaningSummaryCo
 		'- Avoid markdown headings; keep it under 80 words.'
 	].join('\n');
 
-	const body = {
-		model,
-		messages: [
-			{ role: 'system', content: 'You are a senior data quality analyst who writes crisp executive summaries.' },
-			{ role: 'user', content: userContent }
-		],
-		max_tokens: 220,
-		temperature: 0.2
-	};
-
+	// Any provider failure degrades to a concise deterministic summary
 	try {
-        console.log('Sending request to Perplexity API...');
-	console.log('Request body:', JSON.stringify(body, null, 2));
-		const response = await fetch('https://api.perplexity.ai/chat/completions', {
-			method: 'POST',
-			headers: {
-				'Authorization': `Bearer ${apiKey}`,
-				'Content-Type': 'application/json'
-			},
-			body: JSON.stringify(body)
+		const { content } = await requestCompletion({
+			task: 'cleaning-summary',
+			messages: [
+				{ role: 'system', content: 'You are a senior data quality analyst who writes crisp executive summaries.' },
+				{ role: 'user', content: userContent }
+			],
+			maxTokens: 220,
+			temperature: 0.2
 		});
-		if (!response.ok) {
-			return fallbackSummary(context);
-		}
-		const result = await response.json();
-		const content = result?.choices?.[0]?.message?.content;
-		return typeof content === 'string' && content.trim().length > 0 ? content.trim() : fallbackSummary(context);
+		return content.trim().length > 0 ? content.trim() : fallbackSummary(context);
 	} catch {
 		return fallbackSummary(context);
 	}
@@ -130,23 +113,36 @@ export interface InvoiceStructuredItem {
     name?: string;
     quantity?: number;
     rate?: number;
-    gst?: number;
+    gst?: number; // Legacy: percentage or amount as read by the model
     total?: number;
+    hsnSac?: string;
+    taxableValue?: number;
+    gstRate?: number; // Percentage slab, e.g. 18
+    cgst?: number;
+    sgst?: number;
+    igst?: number;
 }
 
 export interface InvoiceStructured {
     companyName: string;
     address: string;
-    gstNumber: string;
+    gstNumber: string; // Supplier GSTIN
+    buyerGstin?: string;
     date: string; // ISO 8601 or dd/mm/yyyy if unknown
     invoiceNumber: string;
     customerId?: string;
     items: InvoiceStructuredItem[];
     subtotal: number;
     taxes: number;
+    discount?: number;
     grandTotal: number;
+    currency?: string; // ISO 4217 code of all amounts above
+    supplyType?: SupplyType; // Derived from supplier and buyer state codes
     comments?: string;
     signatures?: string[];
+    fieldErrors?: InvoiceFieldError[]; // Fields that failed validation after repair
+    provenance?: InvoiceProvenance; // Source and confidence per field path
+    amountInWords?: AmountInWordsCheck; // Grand total in words, checked against the figure
 }
 
 // ===== SLIDING WINDOW MEMORY FOR INVOICE CONTEXT =====
@@ -243,10 +239,10 @@ class InvoiceMemoryWindow {
 // Global memory instance
 const invoiceMemory = new InvoiceMemoryWindow();
 
-export async function structureInvoiceViaSonar(ocrJson: unknown): Promise<InvoiceStructured> {
-    const apiKey = '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';
-    const model = 'sonar';
-
+export async function structureInvoiceViaSonar(
+    ocrJson: unknown,
+    options: { supplierContext?: string } = {}
+): Promise<InvoiceStructured> {
     // Get contextual memory from previous invoices
     const memoryContext = invoiceMemory.getContext();
 
@@ -260,6 +256,11 @@ export async function structureInvoiceViaSonar(ocrJson: unknown): Promise<Invoic
         memoryContext ? `Previous Context: ${memoryContext}` : 'First-time extraction - building context',
         'Use patterns from recent invoices to improve accuracy. If you see similar company names or GST numbers, maintain consistency.',
         '',
+        ...(options.supplierContext ? [
+            '🏷️ SUPPLIER PROFILE (learned from invoices users confirmed; trust it over noisy OCR):',
+            options.supplierContext,
+            ''
+        ] : []),
         '🔧 PREPROCESSING INTELLIGENCE:',
         '1. Normalize Unicode: Convert Hindi/Devanagari numerals (०-९) to Western digits (0-9)',
         '2. Merge fragments: Join split tokens like "GST IN: 27AA A" → "GSTIN: 27AAA..."',
@@ -269,27 +270,33 @@ export async function structureInvoiceViaSonar(ocrJson: unknown): Promise<Invoic
         '',
         '🌐 MULTILINGUAL SEMANTIC MAPPING (Hindi ↔ English):',
         '• Company: कंपनी/संस्था/व्यापार → companyName',
-        '• GST: जीएसटी/GSTIN/GST नंबर → gstNumber (15 chars alphanumeric)',
+        '• GST: जीएसटी/GSTIN/GST नंबर → gstNumber (supplier, 15 chars alphanumeric); buyer/recipient GSTIN → buyerGstin',
+        '• HSN/SAC: एचएसएन/HSN Code/SAC → items[].hsnSac',
+        '• Taxes: सीजीएसटी/CGST, एसजीएसटी/SGST, आईजीएसटी/IGST → items[].cgst/sgst/igst; छूट/Discount → discount',
         '• Invoice: चालान/बिल/इनवॉयस → invoiceNumber',
         '• Date: तारीख/दिनांक/Date → date (prefer dd/mm/yyyy or ISO)',
         '• Customer: ग्राहक/खरीदार/Customer → customerId',
         '• Items: सामान/वस्तु/मात्रा/Qty, दर/Rate, कुल/Total, GST',
         '• Amounts: उप-योग/Subtotal, कर/Tax, कुल/Grand Total',
+        '• Currency: ₹/Rs/रुपये → INR, $/USD/dollars → USD, €/EUR → EUR, £/GBP → GBP; amounts stay in the printed currency',
         '',
         '🔍 PATTERN RECOGNITION & REASONING:',
         '• If multiple GST candidates exist, choose the 15-char alphanumeric one closest to known patterns',
         '• Use numeric consistency: verify subtotal ≈ Σ(item.total), grandTotal ≈ subtotal + taxes',
-        '• If totals mismatch by <1%, auto-reconcile to maintain mathematical consistency',
+        '• Copy amounts exactly as printed; never adjust totals to force consistency (totals are reconciled separately)',
+        '• Emit round-off adjustments as an item named "Round Off" whose total is the signed adjustment',
         '• Detect item rows by looking for [name, quantity, rate, total] patterns even if columns are misaligned',
+        '• When itemSource is "layout", heuristic.items were read column by column from the table geometry: keep their quantity, rate and total unless the OCR text clearly contradicts them',
         '• Infer missing product IDs from item names or sequence (e.g., "PROD-001", "PROD-002")',
         '',
         '📊 OUTPUT SCHEMA (Strict JSON):',
         '{',
         '  "companyName": string,        // Business name from header',
         '  "address": string,            // Full address, comma-separated',
-        '  "gstNumber": string,          // 15-char GSTIN or "N/A"',
-        '  "date": string,               // dd/mm/yyyy or ISO format',
-        '  "invoiceNumber": string,      // Unique invoice ID (generate if missing)',
+        '  "gstNumber": string,          // Supplier 15-char GSTIN or "N/A"',
+        '  "buyerGstin": string,         // Buyer GSTIN or "N/A"',
+        '  "date": string | null,        // dd/mm/yyyy or ISO format, null if not printed',
+        '  "invoiceNumber": string,      // Invoice number as printed or "N/A"',
         '  "customerId": string,         // Customer ID or name',
         '  "items": [',
         '    {',
@@ -297,21 +304,28 @@ export async function structureInvoiceViaSonar(ocrJson: unknown): Promise<Invoic
         '      "name": string,           // Item name',
         '      "quantity": number,       // Quantity ordered',
         '      "rate": number,           // Unit price',
-        '      "gst": number,            // GST percentage or amount',
+        '      "hsnSac": string,         // HSN/SAC code if printed',
+        '      "taxableValue": number,   // Taxable value before GST',
+        '      "gstRate": number,        // GST rate percentage (0, 5, 12, 18, 28 ...)',
+        '      "cgst": number,           // CGST amount if printed',
+        '      "sgst": number,           // SGST amount if printed',
+        '      "igst": number,           // IGST amount if printed',
         '      "total": number           // Line total',
         '    }',
         '  ],',
         '  "subtotal": number,           // Sum of item totals',
         '  "taxes": number,              // Total tax amount',
+        '  "discount": number,           // Bill-level discount amount',
         '  "grandTotal": number,         // Final payable amount',
+        '  "currency": string,           // ISO 4217 code of the amounts, e.g. "INR", "USD", "EUR"',
         '  "comments": string,           // Additional notes/terms',
         '  "signatures": [string]        // Signature text if present',
         '}',
         '',
         '✨ SMART IMPUTATION RULES:',
         '• Missing companyName → Extract from header/logo text',
-        '• Missing invoiceNumber → Generate format: "INV-" + timestamp (e.g., "INV-20251021001")',
-        '• Missing date → Use current date in dd/mm/yyyy format',
+        '• Missing invoiceNumber → "N/A" (never invent one; bills are numbered by the app)',
+        '• Missing date → null (never substitute the current date; the app fills it in and flags it for review)',
         '• Missing customerId → Use "CUST-UNKNOWN" or extract from bill-to section',
         '• Missing productId → Generate "PROD-{index}" (e.g., "PROD-1", "PROD-2")',
         '• Missing numbers → Default to 0',
@@ -320,8 +334,8 @@ export async function structureInvoiceViaSonar(ocrJson: unknown): Promise<Invoic
         '• If grandTotal missing: subtotal + taxes',
         '',
         '🎯 QUALITY ASSURANCE:',
-        '• Ensure all item totals = quantity × rate (adjust if OCR caused calculation errors)',
-        '• Verify grandTotal = subtotal + taxes (reconcile if diff < 1%)',
+        '• Fix OCR digit errors in item totals only when the printed value is clearly garbled',
+        '• Report grandTotal as the final payable amount printed on the invoice',
         '• Maintain consistency with previous invoices from same company (if in context)',
         '• Prefer semantic correctness over literal OCR output',
         '',
@@ -333,110 +347,206 @@ export async function structureInvoiceViaSonar(ocrJson: unknown): Promise<Invoic
     ].join('\n');
 
     const userContent = typeof ocrJson === 'string' ? ocrJson : JSON.stringify(ocrJson);
+    const baseMessages: LLMMessage[] = [
+        { role: 'system', content: systemPrompt },
+        { role: 'user', content: `Extract invoice data from this OCR output:\n\n${userContent}` }
+    ];
 
-    const body = {
-        model,
-        messages: [
-            { role: 'system', content: systemPrompt },
-            { role: 'user', content: `Extract invoice data from this OCR output:\n\n${userContent}` }
-        ],
-        max_tokens: 1500,
-        temperature: 0.15
-    };
+    let parsed: unknown = null;
+    let fieldErrors: InvoiceFieldError[] = [];
 
     try {
-        const response = await fetch('https://api.perplexity.ai/chat/completions', {
-            method: 'POST',
-            headers: {
-                'Authorization': `Bearer ${apiKey}`,
-                'Content-Type': 'application/json'
-            },
-            body: JSON.stringify(body)
+        const completion = await requestCompletion({
+            task: 'invoice-structuring',
+            messages: baseMessages,
+            maxTokens: 1500,
+            temperature: 0.15
         });
-        if (!response.ok) throw new Error('Sonar error');
-        const result = await response.json();
-        let content = result?.choices?.[0]?.message?.content as string;
-        
-        // Strip markdown code blocks if present
-        content = content.replace(/```json\n?/g, '').replace(/```\n?/g, '').trim();
-        
-        const parsed = JSON.parse(content);
-
-        // Defensive imputation in case the model omits fields
-        const items = Array.isArray(parsed.items) ? parsed.items : [];
-        const subtotal = (typeof parsed.subtotal === 'number' ? parsed.subtotal : items.reduce((s: number, it: any) => s + (Number(it.total) || 0), 0));
-        const taxes = typeof parsed.taxes === 'number' ? parsed.taxes : 0;
-        let grandTotal = typeof parsed.grandTotal === 'number' ? parsed.grandTotal : (subtotal + taxes);
-        
-        // Reconcile totals if slightly inconsistent (<1%)
-        const sumItems = items.reduce((s: number, it: any) => s + (Number(it.total) || 0), 0);
-        const expectedGrand = sumItems + taxes;
-        if (expectedGrand > 0) {
-            const diff = Math.abs(expectedGrand - grandTotal);
-            const rel = diff / expectedGrand;
-            if (rel < 0.01) {
-                grandTotal = expectedGrand;
-            }
+        let lastContent = completion.content;
+        parsed = parseModelJson(lastContent);
+        fieldErrors = parsed === null
+            ? [{ path: '$', message: 'response is not valid JSON', value: lastContent.slice(0, 200) }]
+            : InvoiceSchema.validate(parsed).fieldErrors;
+
+        // Bounded repair: ask the model to fix only the fields that failed validation
+        for (let round = 0; round < MAX_REPAIR_ROUNDS && fieldErrors.length > 0; round++) {
+            const repair = await requestCompletion({
+                task: 'invoice-repair',
+                messages: [
+                    ...baseMessages,
+                    { role: 'assistant', content: lastContent },
+                    { role: 'user', content: buildRepairPrompt(fieldErrors) }
+                ],
+                maxTokens: 800,
+                temperature: 0
+            });
+            lastContent = repair.content;
+            parsed = applyRepair(parsed, repair.content, fieldErrors);
+            fieldErrors = parsed === null
+                ? [{ path: '$', message: 'response is not valid JSON', value: lastContent.slice(0, 200) }]
+                : InvoiceSchema.validate(parsed).fieldErrors;
         }
-        
-        const today = new Date();
-        const dd = String(today.getDate()).padStart(2, '0');
-        const mm = String(today.getMonth() + 1).padStart(2, '0');
-        const yyyy = String(today.getFullYear());
-        
-        // Generate invoice number if missing
-        const invoiceNumber = parsed.invoiceNumber && parsed.invoiceNumber !== 'N/A' 
-            ? parsed.invoiceNumber 
-            : `INV-${Date.now()}`;
-
-        const structuredInvoice: InvoiceStructured = {
-            companyName: parsed.companyName || 'N/A',
-            address: parsed.address || 'N/A',
-            gstNumber: parsed.gstNumber || 'N/A',
-            date: parsed.date || `${dd}/${mm}/${yyyy}`,
-            invoiceNumber,
-            customerId: parsed.customerId || 'CUST-UNKNOWN',
-            items: items.map((it: any, idx: number) => ({
-                productId: it.productId || `PROD-${idx + 1}`,
-                name: it.name || 'N/A',
-                quantity: Number(it.quantity) || 0,
-                rate: Number(it.rate) || 0,
-                gst: Number(it.gst) || 0,
-                total: Number(it.total) || 0
-            })),
-            subtotal,
-            taxes,
-            grandTotal,
-            comments: parsed.comments || '',
-            signatures: Array.isArray(parsed.signatures) ? parsed.signatures : []
-        };
-
-        // Add to sliding window memory for future context
-        invoiceMemory.add(structuredInvoice);
-
-        return structuredInvoice;
     } catch (error) {
         console.error('Invoice extraction error:', error);
-        // Fallback minimal structure
-        const today = new Date();
-        const dd = String(today.getDate()).padStart(2, '0');
-        const mm = String(today.getMonth() + 1).padStart(2, '0');
-        const yyyy = String(today.getFullYear());
-        return {
-            companyName: 'N/A',
-            address: 'N/A',
-            gstNumber: 'N/A',
-            date: `${dd}/${mm}/${yyyy}`,
-            invoiceNumber: `INV-${Date.now()}`,
-            customerId: 'CUST-UNKNOWN',
-            items: [],
-            subtotal: 0,
-            taxes: 0,
-            grandTotal: 0,
-            comments: 'OCR extraction failed - manual review required',
-            signatures: []
-        };
+        fieldErrors = [
+            ...fieldErrors,
+            { path: '$', message: `LLM extraction failed: ${(error as Error)?.message || 'unknown error'}` }
+        ];
+    }
+
+    const evidence = extractOcrEvidence(ocrJson);
+
+    // Keep whatever the heuristic parser found when the model produced nothing usable
+    const fromModel = parsed !== null;
+    if (!fromModel && evidence.heuristic) {
+        parsed = evidence.heuristic;
     }
+
+    const structuredInvoice = buildStructuredInvoice(
+        InvoiceSchema.validate(parsed).value,
+        fieldErrors,
+        evidence,
+        fromModel ? 'llm' : 'ocr'
+    );
+
+    // Add to sliding window memory for future context
+    if (fromModel) invoiceMemory.add(structuredInvoice);
+
+    return structuredInvoice;
+}
+
+const MAX_REPAIR_ROUNDS = 2;
+
+function parseModelJson(content: string): unknown {
+    try {
+        return InvoiceSchema.parseJson(content);
+    } catch {
+        return null;
+    }
+}
+
+function buildRepairPrompt(fieldErrors: InvoiceFieldError[]): string {
+    if (fieldErrors.some(e => e.path === '$')) {
+        return [
+            'Your previous response could not be used as the invoice JSON object.',
+            'Return the complete invoice as a single valid JSON object following the schema, with no other text.'
+        ].join('\n');
+    }
+    return [
+        'Some fields in your JSON failed validation:',
+        ...fieldErrors.map(e => `- ${e.path}: ${e.message} (got ${JSON.stringify(e.value)})`),
+        '',
+        'Re-read the OCR output and return ONLY a JSON object whose keys are exactly these paths and whose values are the corrected values, e.g. {"items[0].quantity": 2}.',
+        'Use null for any value that cannot be determined. Do not include any other fields.'
+    ].join('\n');
+}
+
+function applyRepair(parsed: unknown, content: string, fieldErrors: InvoiceFieldError[]): unknown {
+    const repaired = parseModelJson(content);
+    if (parsed === null || fieldErrors.some(e => e.path === '$')) {
+        return repaired ?? parsed;
+    }
+    if (typeof repaired !== 'object' || repaired === null || Array.isArray(repaired)) return parsed;
+
+    const failedPaths = new Set(fieldErrors.map(e => e.path));
+    const merged = JSON.parse(JSON.stringify(parsed)) as Record<string, unknown>;
+    Object.entries(repaired as Record<string, unknown>).forEach(([path, value]) => {
+        if (failedPaths.has(path)) InvoiceSchema.setPath(merged, path, value);
+    });
+    return merged;
 }
 
+function extractOcrEvidence(ocrJson: unknown): OcrEvidence {
+    if (typeof ocrJson !== 'object' || ocrJson === null) {
+        return { fullText: typeof ocrJson === 'string' ? ocrJson : undefined };
+    }
+    const source = ocrJson as { full_text?: unknown; detections?: unknown; heuristic?: unknown };
+    return {
+        fullText: typeof source.full_text === 'string' ? source.full_text : undefined,
+        detections: Array.isArray(source.detections) ? source.detections : undefined,
+        heuristic: typeof source.heuristic === 'object' && source.heuristic !== null
+            ? source.heuristic as OcrEvidence['heuristic']
+            : undefined
+    };
+}
+
+function buildStructuredInvoice(
+    parsed: Partial<InvoiceStructured>,
+    fieldErrors: InvoiceFieldError[],
+    evidence: OcrEvidence,
+    source: 'llm' | 'ocr'
+): InvoiceStructured {
+    // Defensive imputation in case the model omits fields
+    const imputedPaths: string[] = [];
+    const impute = <T>(path: string, value: T | undefined, fallback: T): T => {
+        if (value !== undefined && value !== '') return value;
+        imputedPaths.push(path);
+        return fallback;
+    };
 
+    const items = parsed.items || [];
+    const sumItems = items.reduce((s, it) => s + (it.total || 0), 0);
+    const subtotal = impute('subtotal', parsed.subtotal, sumItems);
+    const taxes = impute('taxes', parsed.taxes, 0);
+    // Amounts are kept as printed; InvoiceReconciler explains any arithmetic gaps
+    const grandTotal = impute('grandTotal', parsed.grandTotal, subtotal + taxes);
+
+    const today = new Date();
+    const dd = String(today.getDate()).padStart(2, '0');
+    const mm = String(today.getMonth() + 1).padStart(2, '0');
+    const yyyy = String(today.getFullYear());
+
+    const invoice: InvoiceStructured = {
+        companyName: impute('companyName', parsed.companyName, 'N/A'),
+        address: impute('address', parsed.address, 'N/A'),
+        gstNumber: impute('gstNumber', parsed.gstNumber, 'N/A'),
+        date: impute('date', parsed.date, `${dd}/${mm}/${yyyy}`),
+        // Bill numbers come from the numbering series, so a missing invoice number stays missing
+        invoiceNumber: impute('invoiceNumber', parsed.invoiceNumber, 'N/A'),
+        customerId: impute('customerId', parsed.customerId, 'CUST-UNKNOWN'),
+        items: items.map((it, idx) => ({
+            productId: impute(`items[${idx}].productId`, it.productId, `PROD-${idx + 1}`),
+            name: impute(`items[${idx}].name`, it.name, 'N/A'),
+            quantity: impute(`items[${idx}].quantity`, it.quantity, 0),
+            rate: impute(`items[${idx}].rate`, it.rate, 0),
+            gst: it.gst || 0,
+            total: impute(`items[${idx}].total`, it.total, 0),
+            hsnSac: it.hsnSac,
+            taxableValue: it.taxableValue,
+            gstRate: it.gstRate,
+            cgst: it.cgst,
+            sgst: it.sgst,
+            igst: it.igst
+        })),
+        subtotal,
+        taxes,
+        discount: parsed.discount ?? 0,
+        grandTotal,
+        currency: CurrencyDetector.normalize(parsed.currency) || CurrencyDetector.detect(evidence.fullText || '').currency,
+        buyerGstin: parsed.buyerGstin,
+        comments: parsed.comments || '',
+        signatures: parsed.signatures || [],
+        fieldErrors
+    };
+
+    // Fill in rate and CGST/SGST/IGST split from the supplier and buyer state codes
+    const gst = GstCalculator.breakdown(invoice.items, invoice.gstNumber, invoice.buyerGstin);
+    invoice.supplyType = gst.supplyType;
+    invoice.items = invoice.items.map((item, idx) => {
+        if (InvoiceReconciler.isRoundOffLine(item)) return item;
+        const split = gst.lines[idx];
+        const printed = (item.cgst ?? 0) + (item.sgst ?? 0) + (item.igst ?? 0);
+        const usePrinted = printed > 0 && Math.abs(printed - split.totalTax) <= 0.05;
+        return {
+            ...item,
+            taxableValue: split.taxableValue,
+            gstRate: split.gstRate,
+            cgst: usePrinted ? item.cgst ?? 0 : split.cgst,
+            sgst: usePrinted ? item.sgst ?? 0 : split.sgst,
+            igst: usePrinted ? item.igst ?? 0 : split.igst
+        };
+    });
+
+    invoice.provenance = ProvenanceTracker.score(invoice, evidence, { source, imputedPaths });
+    return invoice;
+}
@@ -0,0 +1,109 @@
+import { CostMethod, StockChange } from '../types/invoice';
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+export interface ReceivedLine {
+  productId: string;
+  productName: string;
+  quantity: number;
+  taxableValue: number;
+}
+
+export interface StockLevel {
+  id: string;
+  name?: string;
+  stock: number;
+  cost_price: number;
+  reorder_threshold?: number;
+  status?: string;
+}
+
+/** Row of the `stock_movements` ledger. */
+export interface StockMovementRow {
+  product_id: string;
+  bill_id: string;
+  movement_type: 'purchase' | 'purchase_revision';
+  quantity: number;
+  unit_cost: number;
+  stock_before: number;
+  stock_after: number;
+  cost_before: number;
+  cost_after: number;
+}
+
+export class StockAdjuster {
+  /**
+   * Stock and cost of each product after receiving the lines. Lines of the
+   * same product are combined; `alreadyReceived` (by product id) is netted
+   * off so re-importing a merged bill only books the difference.
+   */
+  static plan(
+    lines: ReceivedLine[],
+    levels: StockLevel[],
+    method: CostMethod,
+    alreadyReceived: Map<string, number> = new Map()
+  ): StockChange[] {
+    const byProduct = new Map<string, ReceivedLine>();
+    lines.filter(line => line.quantity > 0).forEach(line => {
+      const key = line.productId || `new:${line.productName.toLowerCase()}`;
+      const existing = byProduct.get(key);
+      byProduct.set(key, existing
+        ? { ...existing, quantity: existing.quantity + line.quantity, taxableValue: existing.taxableValue + line.taxableValue }
+        : { ...line });
+    });
+    // Products received earlier whose lines are gone from the revised bill
+    alreadyReceived.forEach((_, productId) => {
+      if (!byProduct.has(productId)) {
+        const name = levels.find(l => l.id === productId)?.name || 'Removed line';
+        byProduct.set(productId, { productId, productName: name, quantity: 0, taxableValue: 0 });
+      }
+    });
+
+    return [...byProduct.values()].map(line => {
+      const level = levels.find(l => l.id === line.productId);
+      const stockBefore = level?.stock ?? 0;
+      const costBefore = level?.cost_price ?? 0;
+      const unitCost = line.quantity > 0 ? round2(line.taxableValue / line.quantity) : costBefore;
+      const quantity = line.quantity - (alreadyReceived.get(line.productId) ?? 0);
+      const stockAfter = stockBefore + quantity;
+
+      let costAfter = costBefore;
+      if (method === 'last-cost' || (method === 'weighted-average' && stockBefore <= 0)) {
+        costAfter = unitCost;
+      } else if (method === 'weighted-average' && stockAfter > 0 && quantity > 0) {
+        costAfter = round2((stockBefore * costBefore + quantity * unitCost) / stockAfter);
+      }
+
+      return {
+        productId: line.productId,
+        productName: line.productName,
+        quantity,
+        unitCost,
+        stockBefore,
+        stockAfter,
+        costBefore,
+        costAfter
+      };
+    }).filter(change => change.quantity !== 0 || change.costAfter !== change.costBefore);
+  }
+
+  static statusFor(stock: number, reorderThreshold = 10): string {
+    if (stock <= 0) return 'Out of Stock';
+    if (stock <= reorderThreshold) return 'Low Stock';
+    return 'In Stock';
+  }
+
+  static movementRow(change: StockChange, billId: string, revision: boolean): StockMovementRow {
+    return {
+      product_id: change.productId,
+      bill_id: billId,
+      movement_type: revision ? 'purchase_revision' : 'purchase',
+      quantity: change.quantity,
+      unit_cost: change.unitCost,
+      stock_before: change.stockBefore,
+      stock_after: change.stockAfter,
+      cost_before: change.costBefore,
+      cost_after: change.costAfter
+    };
+  }
+}
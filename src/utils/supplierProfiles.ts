@@ -0,0 +1,333 @@
+import {
+  FieldPosition,
+  OcrDetection,
+  ProfiledField,
+  SupplierCorrection,
+  SupplierProfile,
+  SupplyType
+} from '../types/invoice';
+import { GstinValidator } from './gstinValidator';
+import type { ExtractedInvoice } from './invoicePipeline';
+
+const STORAGE_KEY = 'supplier-profiles';
+const MAX_CATALOG_ITEMS = 200;
+const MAX_CORRECTIONS = 50;
+const POSITION_TOLERANCE = 0.06; // Fraction of the page, allows for skewed photos
+
+export interface SupplierObservation {
+  gstin: string;
+  companyName: string;
+  address?: string;
+  billDate: string; // Confirmed date, YYYY-MM-DD
+  printedDate?: string; // Date as extracted from the invoice
+  invoiceNumber?: string;
+  grandTotal: number;
+  supplyType: SupplyType;
+  gstInclusiveLines: boolean;
+  items: Array<{ name: string; hsnSac?: string; gstRate: number; rate: number; productId?: string }>;
+  corrections: Array<Omit<SupplierCorrection, 'at'>>;
+  detections?: OcrDetection[];
+}
+
+const normalizeName = (value: string) => value.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+
+const tokenSimilarity = (a: string, b: string) => {
+  const left = new Set(normalizeName(a).split(' ').filter(Boolean));
+  const right = new Set(normalizeName(b).split(' ').filter(Boolean));
+  if (left.size === 0 || right.size === 0) return 0;
+  const shared = [...left].filter(token => right.has(token)).length;
+  return shared / (left.size + right.size - shared);
+};
+
+const FIELD_READERS: Record<ProfiledField, (text: string) => string | number | undefined> = {
+  invoiceNumber: text => {
+    const labelled = text.match(/(?:no\.?|number|#|नंबर|संख्या)\s*[:：.-]?\s*([A-Z0-9][A-Z0-9/-]*)/i);
+    if (labelled) return labelled[1];
+    const afterColon = text.split(/[:：]/)[1]?.trim();
+    if (afterColon && /\d/.test(afterColon)) return afterColon.split(/\s+/)[0];
+    return /^[A-Z0-9/-]{2,30}$/i.test(text.trim()) && /\d/.test(text) ? text.trim() : undefined;
+  },
+  date: text => text.match(/\d{1,4}[/.-]\d{1,2}[/.-]\d{1,4}/)?.[0],
+  grandTotal: text => {
+    const numbers = text.match(/\d[\d,]*(?:\.\d{1,2})?/g);
+    return numbers ? parseFloat(numbers[numbers.length - 1].replace(/,/g, '')) : undefined;
+  }
+};
+
+export class SupplierProfileStore {
+  static all(): SupplierProfile[] {
+    try {
+      const raw = typeof localStorage !== 'undefined' ? localStorage.getItem(STORAGE_KEY) : null;
+      return raw ? JSON.parse(raw) : [];
+    } catch {
+      return [];
+    }
+  }
+
+  static get(gstin: string): SupplierProfile | undefined {
+    const key = GstinValidator.normalize(gstin);
+    return this.all().find(profile => profile.gstin === key);
+  }
+
+  static save(profile: SupplierProfile): void {
+    const others = this.all().filter(p => p.gstin !== profile.gstin);
+    localStorage.setItem(STORAGE_KEY, JSON.stringify([...others, profile]));
+  }
+
+  static remove(gstin: string): void {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(this.all().filter(p => p.gstin !== gstin)));
+  }
+
+  /**
+   * Finds the profile of a repeat supplier from the GSTIN the parser read,
+   * its OCR-corrected variants, or any known GSTIN appearing in the text.
+   */
+  static match(fullText: string, gstinCandidate?: string): SupplierProfile | undefined {
+    const profiles = this.all();
+    if (profiles.length === 0) return undefined;
+
+    if (gstinCandidate) {
+      const candidates = [
+        GstinValidator.normalize(gstinCandidate),
+        ...GstinValidator.suggestCorrections(gstinCandidate).map(s => s.gstin)
+      ];
+      const byGstin = profiles.find(profile => candidates.includes(profile.gstin));
+      if (byGstin) return byGstin;
+    }
+
+    const compactText = fullText.toUpperCase().replace(/[\s-]/g, '');
+    return profiles.find(profile => compactText.includes(profile.gstin));
+  }
+
+  /** Updates (or creates) the supplier's profile from an invoice the user confirmed in InvoiceImport. */
+  static learn(observation: SupplierObservation): SupplierProfile {
+    const gstin = GstinValidator.normalize(observation.gstin);
+    const existing = this.get(gstin);
+    const profile: SupplierProfile = existing || {
+      gstin,
+      companyName: observation.companyName,
+      invoiceCount: 0,
+      updatedAt: new Date().toISOString(),
+      taxStyle: { gstInclusiveLines: false, typicalRates: [] },
+      fieldPositions: {},
+      itemCatalog: [],
+      corrections: []
+    };
+
+    profile.companyName = observation.companyName || profile.companyName;
+    profile.address = observation.address || profile.address;
+    profile.invoiceCount += 1;
+    profile.updatedAt = new Date().toISOString();
+    profile.dateFormat = this.detectDateFormat(observation.printedDate, observation.billDate) || profile.dateFormat;
+    profile.taxStyle = {
+      supplyType: observation.supplyType,
+      gstInclusiveLines: observation.gstInclusiveLines,
+      typicalRates: [...new Set([...observation.items.map(item => item.gstRate), ...profile.taxStyle.typicalRates])]
+        .filter(rate => rate > 0)
+        .slice(0, 5)
+    };
+
+    observation.items.forEach(item => {
+      const known = profile.itemCatalog.find(entry => normalizeName(entry.name) === normalizeName(item.name));
+      if (known) {
+        known.count += 1;
+        known.hsnSac = item.hsnSac || known.hsnSac;
+        known.gstRate = item.gstRate;
+        known.lastRate = item.rate;
+        known.productId = item.productId || known.productId;
+      } else {
+        profile.itemCatalog.push({
+          name: item.name,
+          hsnSac: item.hsnSac,
+          gstRate: item.gstRate,
+          lastRate: item.rate,
+          productId: item.productId,
+          count: 1
+        });
+      }
+    });
+    profile.itemCatalog = profile.itemCatalog.sort((a, b) => b.count - a.count).slice(0, MAX_CATALOG_ITEMS);
+
+    const at = new Date().toISOString();
+    profile.corrections = [...observation.corrections.map(c => ({ ...c, at })), ...profile.corrections]
+      .slice(0, MAX_CORRECTIONS);
+
+    if (observation.detections?.length) {
+      const values: Record<ProfiledField, string | number | undefined> = {
+        invoiceNumber: observation.invoiceNumber,
+        date: observation.printedDate,
+        grandTotal: observation.grandTotal
+      };
+      (Object.keys(values) as ProfiledField[]).forEach(field => {
+        const position = this.locate(field, values[field], observation.detections!);
+        if (position) profile.fieldPositions[field] = position;
+      });
+    }
+
+    this.save(profile);
+    return profile;
+  }
+
+  /**
+   * Applies what is known about a repeat supplier to the heuristic parse:
+   * fields read from their learned positions, confirmed name and address,
+   * past item-name corrections and catalog HSN/GST details.
+   */
+  static applyToHeuristic(
+    invoice: ExtractedInvoice,
+    profile: SupplierProfile,
+    detections: OcrDetection[] = []
+  ): ExtractedInvoice {
+    const result: ExtractedInvoice = {
+      ...invoice,
+      companyName: profile.companyName,
+      gstNumber: profile.gstin,
+      address: invoice.address || profile.address
+    };
+
+    (Object.keys(profile.fieldPositions) as ProfiledField[]).forEach(field => {
+      const value = this.readPosition(field, profile.fieldPositions[field]!, detections);
+      if (value === undefined) return;
+      if (field === 'grandTotal') result.grandTotal = value as number;
+      else result[field] = String(value);
+    });
+
+    const nameCorrections = new Map(
+      profile.corrections
+        .filter(c => c.path === 'items[].name')
+        .map(c => [normalizeName(c.extracted), c.corrected])
+    );
+
+    result.items = invoice.items.map(item => {
+      let name = item.name || '';
+      name = nameCorrections.get(normalizeName(name)) || name;
+      const known = profile.itemCatalog
+        .map(entry => ({ entry, score: tokenSimilarity(entry.name, name) }))
+        .filter(match => match.score >= 0.75)
+        .sort((a, b) => b.score - a.score)[0]?.entry;
+      return {
+        ...item,
+        name: known?.name || name,
+        hsnSac: item.hsnSac || known?.hsnSac,
+        gstRate: item.gstRate ?? known?.gstRate
+      };
+    });
+
+    return result;
+  }
+
+  /** Supplier facts for the structuring prompt. */
+  static promptContext(profile: SupplierProfile): string {
+    const lines = [
+      `Known supplier: ${profile.companyName} (GSTIN ${profile.gstin}), ${profile.invoiceCount} invoice(s) imported before.`
+    ];
+    if (profile.dateFormat) lines.push(`Dates on this supplier's invoices are printed as ${profile.dateFormat}.`);
+    const tax = profile.taxStyle;
+    lines.push([
+      tax.supplyType === 'inter' ? 'Usually inter-state (IGST).' : tax.supplyType === 'intra' ? 'Usually intra-state (CGST + SGST).' : '',
+      tax.typicalRates.length ? `Typical GST rates: ${tax.typicalRates.map(r => `${r}%`).join(', ')}.` : '',
+      tax.gstInclusiveLines ? 'Line totals are printed including GST.' : ''
+    ].filter(Boolean).join(' '));
+
+    if (profile.itemCatalog.length > 0) {
+      lines.push('Items this supplier usually bills (use these exact names when the OCR text is close):');
+      profile.itemCatalog.slice(0, 15).forEach(item => {
+        const details = [
+          item.hsnSac ? `HSN ${item.hsnSac}` : '',
+          item.gstRate !== undefined ? `GST ${item.gstRate}%` : '',
+          item.lastRate !== undefined ? `last rate ${item.lastRate}` : ''
+        ].filter(Boolean).join(', ');
+        lines.push(`- ${item.name}${details ? ` (${details})` : ''}`);
+      });
+    }
+
+    if (profile.corrections.length > 0) {
+      lines.push('Corrections users made to earlier extractions from this supplier:');
+      profile.corrections.slice(0, 10).forEach(c => lines.push(`- ${c.path}: "${c.extracted}" → "${c.corrected}"`));
+    }
+
+    return lines.filter(Boolean).join('\n');
+  }
+
+  static exportJson(): string {
+    return JSON.stringify({ version: 1, profiles: this.all() }, null, 2);
+  }
+
+  /** Merges exported profiles into the store; the newer copy of a supplier wins. Returns how many were imported. */
+  static importJson(json: string): number {
+    const parsed = JSON.parse(json);
+    const incoming: unknown[] = Array.isArray(parsed) ? parsed : parsed?.profiles;
+    if (!Array.isArray(incoming)) throw new Error('File does not contain supplier profiles');
+
+    const valid = incoming.filter((p): p is SupplierProfile =>
+      typeof p === 'object' && p !== null && typeof (p as SupplierProfile).gstin === 'string' && Array.isArray((p as SupplierProfile).itemCatalog)
+    );
+    const byGstin = new Map(this.all().map(profile => [profile.gstin, profile]));
+    valid.forEach(profile => {
+      const current = byGstin.get(profile.gstin);
+      if (!current || current.updatedAt < profile.updatedAt) byGstin.set(profile.gstin, profile);
+    });
+    localStorage.setItem(STORAGE_KEY, JSON.stringify([...byGstin.values()]));
+    return valid.length;
+  }
+
+  private static detectDateFormat(printed: string | undefined, confirmed: string): SupplierProfile['dateFormat'] {
+    if (!printed) return undefined;
+    if (/^\d{4}-\d{2}-\d{2}/.test(printed)) return 'YYYY-MM-DD';
+    const parts = printed.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2,4})/);
+    const [, month, day] = confirmed.split('-').map(Number);
+    if (!parts || !month || !day) return undefined;
+    const [first, second] = [Number(parts[1]), Number(parts[2])];
+    if (first === second) return undefined; // Ambiguous, e.g. 05/05
+    if (first === day && second === month) return 'DD/MM/YYYY';
+    if (first === month && second === day) return 'MM/DD/YYYY';
+    return undefined;
+  }
+
+  private static pageExtent(detections: OcrDetection[], page?: number) {
+    const onPage = detections.filter(d => d.bbox && (d.page ?? 1) === (page ?? 1));
+    return {
+      width: Math.max(1, ...onPage.map(d => d.bbox![2])),
+      height: Math.max(1, ...onPage.map(d => d.bbox![3])),
+      detections: onPage
+    };
+  }
+
+  /** Position of the detection holding a confirmed value, relative to the page. */
+  private static locate(field: ProfiledField, value: string | number | undefined, detections: OcrDetection[]): FieldPosition | undefined {
+    if (value === undefined || value === '') return undefined;
+    const matches = detections.filter(d => {
+      if (!d.bbox) return false;
+      const read = FIELD_READERS[field](d.text);
+      return typeof value === 'number'
+        ? typeof read === 'number' && Math.abs(read - value) < 0.01
+        : normalizeName(String(read ?? '')) === normalizeName(value);
+    });
+    // Totals repeat (e.g. in the amount-in-words line); the lowest one on the page is the payable amount
+    const detection = field === 'grandTotal'
+      ? matches.sort((a, b) => b.bbox![3] - a.bbox![3])[0]
+      : matches[0];
+    if (!detection) return undefined;
+
+    const { width, height } = this.pageExtent(detections, detection.page);
+    const [x0, y0, x1, y1] = detection.bbox!;
+    return { x: (x0 + x1) / 2 / width, y: (y0 + y1) / 2 / height, page: detection.page, sample: detection.text };
+  }
+
+  private static readPosition(field: ProfiledField, position: FieldPosition, detections: OcrDetection[]) {
+    const { width, height, detections: onPage } = this.pageExtent(detections, position.page);
+    const nearest = onPage
+      .map(d => {
+        const [x0, y0, x1, y1] = d.bbox!;
+        return { d, distance: Math.hypot((x0 + x1) / 2 / width - position.x, (y0 + y1) / 2 / height - position.y) };
+      })
+      .filter(candidate => candidate.distance <= POSITION_TOLERANCE)
+      .sort((a, b) => a.distance - b.distance);
+
+    for (const { d } of nearest) {
+      const value = FIELD_READERS[field](d.text);
+      if (value !== undefined) return value;
+    }
+    return undefined;
+  }
+}
@@ -1 +1,22 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_LLM_PROVIDER?: 'perplexity' | 'openai' | 'mock';
+  readonly VITE_LLM_BASE_URL?: string;
+  readonly VITE_LLM_API_KEY?: string;
+  readonly VITE_LLM_MODEL?: string;
+  readonly VITE_LLM_TIMEOUT_MS?: string;
+  readonly VITE_LLM_MAX_RETRIES?: string;
+  readonly VITE_PPLX_API_KEY?: string;
+  readonly VITE_PPLX_MODEL?: string;
+  readonly VITE_OCR_PROVIDER?: 'hf-space' | 'local' | 'fixture';
+  readonly VITE_OCR_ENDPOINT?: string;
+  readonly VITE_OCR_LOCAL_URL?: string;
+  readonly VITE_OCR_FIXTURES_URL?: string;
+  readonly VITE_OCR_TIMEOUT_MS?: string;
+  readonly VITE_BUSINESS_GSTIN?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}